@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { length } from '@/lib/physics/math';
+import { CONSERVATION_TOLERANCE, Drift, EnergyMomentum, formatDrift } from '@/lib/physics/diagnostics';
+import { formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import { useUnits } from '@/hooks/use-units';
+
+interface ConservationHudProps {
+  // Latest reading, or null while there is none
+  sample: EnergyMomentum | null;
+  drift: Drift | null;
+  // Drift the integrator is not to blame for, e.g. from the gimbal rings sharing momentum with
+  // the rotor; shown but not flagged
+  coupling?: Drift | null;
+  // What the current setup conserves, e.g. "Total energy" and "Vertical angular momentum"
+  conserved: { energy: string; momentum: string };
+}
+
+// Readings kept for the sparklines
+const HISTORY_LENGTH = 100;
+
+const WIDTH = 200;
+const HEIGHT = 24;
+
+// World X, Y and Z components of the angular momentum
+const AXIS_COLORS = ['#EF4444', '#10B981', '#3B82F6'];
+
+interface SparklineSeries {
+  color: string;
+  values: number[];
+}
+
+// Recent values scaled to their own range. A range narrower than the conservation tolerance
+// is widened to it, so a value that holds still draws flat rather than as magnified rounding.
+const Sparkline: React.FC<{ series: SparklineSeries[] }> = ({ series }) => {
+  const values = series.flatMap((line) => line.values);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const range = Math.max(high - low, CONSERVATION_TOLERANCE * Math.max(Math.abs(low), Math.abs(high)), 1e-12);
+  const middle = (low + high) / 2;
+  const x = (i: number) => (i / (HISTORY_LENGTH - 1)) * WIDTH;
+  const y = (value: number) => HEIGHT * (0.5 - 0.9 * ((value - middle) / range));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-6 bg-gray-50 rounded">
+      {series.map((line, s) => (
+        <polyline
+          key={s}
+          points={line.values.map((value, i) => `${x(i)},${y(value)}`).join(' ')}
+          fill="none"
+          stroke={line.color}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+const Reading: React.FC<{ label: string; value: string; series: SparklineSeries[] }> = ({ label, value, series }) => (
+  <div className="mb-2">
+    <div className="flex justify-between text-xs text-gray-600 mb-1">
+      <span>{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+    <Sparkline series={series} />
+  </div>
+);
+
+// Energies and angular momentum of the running body with their recent history, and a badge on
+// each quantity the setup conserves telling whether it has drifted beyond the tolerance
+const ConservationHud: React.FC<ConservationHudProps> = ({ sample, drift, coupling, conserved }) => {
+  const units = useUnits();
+  const [history, setHistory] = useState<EnergyMomentum[]>([]);
+
+  useEffect(() => {
+    setHistory((list) => (sample ? [...list.slice(1 - HISTORY_LENGTH), sample] : []));
+  }, [sample]);
+
+  if (!sample) return null;
+
+  const momentum = sample.angularMomentum;
+  const badges = drift
+    ? [
+        { label: conserved.energy, value: drift.energy },
+        { label: conserved.momentum, value: drift.angularMomentum },
+      ]
+    : [];
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold mb-2 text-gray-800">Conservation</h3>
+      <Reading
+        label="Kinetic energy"
+        value={formatQuantity(units, 'energy', sample.kinetic, 2)}
+        series={[{ color: '#6B7280', values: history.map(({ kinetic }) => kinetic) }]}
+      />
+      <Reading
+        label="Potential energy"
+        value={formatQuantity(units, 'energy', sample.potential, 2)}
+        series={[{ color: '#6B7280', values: history.map(({ potential }) => potential) }]}
+      />
+      <Reading
+        label={`Angular momentum (${unitSymbol(units, 'momentum')})`}
+        value={`[${momentum.map((component) => toDisplay(units, 'momentum', component).toFixed(2)).join(', ')}]`}
+        series={AXIS_COLORS.map((color, axis) => ({
+          color,
+          values: history.map(({ angularMomentum }) => angularMomentum[axis]),
+        }))}
+      />
+      <Reading
+        label="|L|"
+        value={formatQuantity(units, 'momentum', length(momentum), 2)}
+        series={[{ color: '#6B7280', values: history.map(({ angularMomentum }) => length(angularMomentum)) }]}
+      />
+      <div className="mt-2 text-xs text-gray-600">
+        {badges.map(({ label, value }) => {
+          const drifting = Math.abs(value) > CONSERVATION_TOLERANCE;
+          return (
+            <div key={label} className="flex items-center justify-between mb-1">
+              <span>{label}</span>
+              <span
+                className={`px-2 py-0.5 rounded border ${
+                  drifting ? 'bg-red-50 border-red-300 text-red-800' : 'bg-green-50 border-green-300 text-green-800'
+                }`}
+              >
+                {drifting ? 'Drifting' : 'Held'} {formatDrift(value)}
+              </span>
+            </div>
+          );
+        })}
+        {coupling && (
+          <p className="mt-1">
+            Ring coupling, not flagged: {formatDrift(coupling.energy)} energy, {formatDrift(coupling.angularMomentum)}{' '}
+            momentum
+          </p>
+        )}
+        {drift ? (
+          <p className="mt-1">Flagged beyond {CONSERVATION_TOLERANCE * 100}% of the value at release.</p>
+        ) : (
+          <p>Conservation is only checked while nothing holds, drives or pushes the body.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConservationHud;
@@ -0,0 +1,125 @@
+import React, { RefObject, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import { Group, Mesh } from 'three';
+import { Quat, Vec3, add, cross, length, normalize, quatFromUnitVectors, quatRotate } from '@/lib/physics/math';
+import { centrifugalAcceleration, coriolisAcceleration } from '@/lib/physics/rotating-frame';
+import { formatQuantity } from '@/lib/units';
+import { useRoomFrame } from '@/hooks/use-room-frame';
+import { useUnits } from '@/hooks/use-units';
+
+// Where a body is and how it turns, in the inertial frame
+export interface BodyPose {
+  // Point the body turns about
+  center: Vec3;
+  orientation: Quat;
+  // World-frame angular velocity (rad/s)
+  angularVelocity: Vec3;
+  // Velocity of the center, for a body that is not held in place (m/s)
+  velocity?: Vec3;
+}
+
+interface FictitiousForcesProps {
+  poseRef: RefObject<BodyPose>;
+  // Points of the body to draw the forces at, relative to the center in the body frame
+  markers: Vec3[];
+}
+
+const FORCES = [
+  { name: 'Centrifugal', color: '#F97316' },
+  { name: 'Coriolis', color: '#A855F7' },
+];
+
+// Arrow length for an acceleration (m): the square root keeps the small centrifugal term
+// visible next to the Coriolis term of a fast rotor
+const arrowLength = (acceleration: number) => Math.min(1.5, 0.5 * Math.sqrt(acceleration));
+
+// Centrifugal and Coriolis forces per unit mass on marked points of a body, drawn while the
+// scene is viewed from the turning room
+const FictitiousForces: React.FC<FictitiousForcesProps> = ({ poseRef, markers }) => {
+  const roomFrame = useRoomFrame();
+  const units = useUnits();
+  const arrowRefs = useRef<(Group | null)[]>([]);
+  const shaftRefs = useRef<(Mesh | null)[]>([]);
+  const headRefs = useRef<(Mesh | null)[]>([]);
+  const labelRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const visible = roomFrame !== null && roomFrame.view === 'room' && roomFrame.rate !== 0;
+
+  useFrame(() => {
+    const pose = poseRef.current;
+    if (!visible || !pose) return;
+    markers.forEach((marker, m) => {
+      const offset = quatRotate(pose.orientation, marker);
+      const position = add(pose.center, offset);
+      const velocity = add(pose.velocity ?? [0, 0, 0], cross(pose.angularVelocity, offset));
+      [
+        centrifugalAcceleration(roomFrame.rate, position),
+        coriolisAcceleration(roomFrame.rate, position, velocity),
+      ].forEach((acceleration, f) => {
+        const i = m * FORCES.length + f;
+        const magnitude = length(acceleration);
+        const size = arrowLength(magnitude);
+        arrowRefs.current[i]?.position.fromArray(position);
+        if (magnitude > 0) {
+          arrowRefs.current[i]?.quaternion.fromArray(quatFromUnitVectors([0, 1, 0], normalize(acceleration)));
+        }
+        shaftRefs.current[i]?.scale.set(1, size, 1);
+        shaftRefs.current[i]?.position.set(0, size / 2, 0);
+        headRefs.current[i]?.position.set(0, size, 0);
+        const label = labelRefs.current[i];
+        if (label) {
+          label.textContent = `${FORCES[f].name}: ${formatQuantity(units, 'acceleration', magnitude, 2)}`;
+        }
+      });
+    });
+  });
+
+  if (!visible) return null;
+
+  return (
+    <>
+      {markers.flatMap((_, m) =>
+        FORCES.map(({ name, color }, f) => {
+          const i = m * FORCES.length + f;
+          return (
+            <group
+              key={`${m}-${name}`}
+              ref={(group) => {
+                arrowRefs.current[i] = group;
+              }}
+            >
+              <mesh
+                ref={(mesh) => {
+                  shaftRefs.current[i] = mesh;
+                }}
+              >
+                <cylinderGeometry args={[0.02, 0.02, 1, 8]} />
+                <meshBasicMaterial color={color} />
+              </mesh>
+              <mesh
+                ref={(mesh) => {
+                  headRefs.current[i] = mesh;
+                }}
+              >
+                <coneGeometry args={[0.05, 0.1, 8]} />
+                <meshBasicMaterial color={color} />
+              </mesh>
+              {m === 0 && (
+                <Html position={[0, -0.15, 0]} center>
+                  <div
+                    ref={(div) => {
+                      labelRefs.current[i] = div;
+                    }}
+                    className="bg-black/70 text-white px-2 py-1 rounded text-xs whitespace-nowrap"
+                  />
+                </Html>
+              )}
+            </group>
+          );
+        }),
+      )}
+    </>
+  );
+};
+
+export default FictitiousForces;
@@ -0,0 +1,189 @@
+import React, { useMemo, useRef } from 'react';
+import { DoubleSide, Group, Mesh } from 'three';
+import { Vec3, lerp, quatSlerp } from '@/lib/physics/math';
+import { worldAngularVelocity } from '@/lib/physics/rigid-body';
+import { FloorTopPreset, FloorTopRelease, FloorTopStance, TIPPE_TOP, TIP_RADIUS } from '@/lib/physics/floor-top';
+import { RotorProperties } from '@/lib/physics/rotor';
+import { fromRpm } from '@/lib/units';
+import { useRoomFrame } from '@/hooks/use-room-frame';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import FictitiousForces, { BodyPose } from './FictitiousForces';
+import Rotor from './Rotor';
+
+// How often the control panel is sent fresh readings (s)
+const TELEMETRY_INTERVAL = 0.1;
+
+interface FloorTopProps {
+  preset: FloorTopPreset;
+  spinRate: number;
+  spinDirection: number;
+  rotor: RotorProperties;
+  // Distance from the disk's center down to the tip of the spinning top (m)
+  tipLength: number;
+  // Angle between the axis and the vertical at release (degrees)
+  initialTilt: number;
+  friction: number;
+  rollingFriction: number;
+  // Bumped to spin the top again with the same settings
+  launch: number;
+  onTelemetry?: (telemetry: FloorTopTelemetry) => void;
+}
+
+export interface FloorTopTelemetry {
+  // Angle of the axis from the vertical (rad) and spin about it (rad/s)
+  tilt: number;
+  spin: number;
+  // Total normal force from the floor (N) and the fastest sliding speed at a contact (m/s)
+  normalForce: number;
+  slip: number;
+  stance: FloorTopStance;
+}
+
+const SpinningTopShape: React.FC<{ rotor: RotorProperties; tipLength: number }> = ({ rotor, tipLength }) => {
+  const { radius, thickness } = rotor;
+  const coneLength = tipLength - thickness / 2 - TIP_RADIUS;
+  return (
+    <>
+      <Rotor radius={radius} thickness={thickness} />
+      {/* Cone from the disk down to the rounded tip */}
+      <mesh position={[0, -thickness / 2 - coneLength / 2, 0]} rotation={[Math.PI, 0, 0]} castShadow>
+        <coneGeometry args={[Math.min(0.25, radius / 2), coneLength, 24]} />
+        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+      </mesh>
+      <mesh position={[0, TIP_RADIUS - tipLength, 0]} castShadow>
+        <sphereGeometry args={[TIP_RADIUS, 12, 12]} />
+        <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+      </mesh>
+      {/* Handle the top is twirled by */}
+      <mesh position={[0, thickness / 2 + 0.15, 0]} castShadow>
+        <cylinderGeometry args={[0.04, 0.04, 0.3, 8]} />
+        <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+      </mesh>
+    </>
+  );
+};
+
+const TippeTopShape: React.FC = () => {
+  const { radius, offset, capAngle, stemLength, stemRadius } = TIPPE_TOP;
+  // Flat face left where the cap is cut off, and the stem standing on it
+  const faceHeight = offset + radius * Math.cos(capAngle);
+  const stemTop = offset + stemLength - stemRadius;
+  return (
+    <>
+      <mesh position={[0, offset, 0]} castShadow>
+        <sphereGeometry args={[radius, 32, 24, 0, 2 * Math.PI, capAngle, Math.PI - capAngle]} />
+        <meshStandardMaterial color="#CD7F32" metalness={0.7} roughness={0.3} side={DoubleSide} />
+      </mesh>
+      <mesh position={[0, faceHeight, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[radius * Math.sin(capAngle), 32]} />
+        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+      </mesh>
+      {/* Stripe down the side, so the spin shows */}
+      <mesh position={[0, offset, 0]} rotation={[0, 0, -Math.PI / 2]}>
+        <torusGeometry args={[radius + 0.005, 0.015, 8, 48, Math.PI - capAngle]} />
+        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+      </mesh>
+      <mesh position={[0, (faceHeight + stemTop) / 2, 0]} castShadow>
+        <cylinderGeometry args={[stemRadius, stemRadius, stemTop - faceHeight, 12]} />
+        <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+      </mesh>
+      <mesh position={[0, stemTop, 0]} castShadow>
+        <sphereGeometry args={[stemRadius, 12, 12]} />
+        <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+      </mesh>
+    </>
+  );
+};
+
+// A top spun on the floor with nothing holding it up. Friction at the contact and rolling
+// resistance slow it down until it falls onto its rim; a tippe top, spun fast enough on its
+// ball, turns over onto its stem first.
+const FloorTop: React.FC<FloorTopProps> = ({
+  preset,
+  spinRate,
+  spinDirection,
+  rotor,
+  tipLength,
+  initialTilt,
+  friction,
+  rollingFriction,
+  launch,
+  onTelemetry,
+}) => {
+  const bodyRef = useRef<Group>(null);
+  const contactRef = useRef<Mesh>(null);
+  const poseRef = useRef<BodyPose | null>(null);
+  const roomFrame = useRoomFrame();
+  const floorRate = roomFrame?.rate ?? 0;
+  // Points the fictitious forces are drawn at (body frame): the rim, or the ball's equator
+  const rimMarkers = useMemo<Vec3[]>(() => {
+    const [radius, height] = preset === 'tippe' ? [TIPPE_TOP.radius, TIPPE_TOP.offset] : [rotor.radius, 0];
+    return [
+      [radius, height, 0],
+      [-radius, height, 0],
+    ];
+  }, [preset, rotor.radius]);
+  const release: FloorTopRelease = {
+    tilt: (initialTilt * Math.PI) / 180,
+    spin: fromRpm(spinRate * spinDirection),
+  };
+  const lastTelemetryRef = useRef(0);
+
+  // The top is stepped in the physics worker, which spins it up again from the middle of the
+  // floor whenever the release conditions change: nothing keeps a top on the floor spinning
+  useWorkerSimulation(
+    'floor-top',
+    { preset, rotor, tipLength, release, friction, rollingFriction, floorRate, launch },
+    (previousSnapshot, simulation, alpha, frame) => {
+      const previous = previousSnapshot.position;
+      bodyRef.current?.position.set(
+        lerp(previous[0], simulation.position[0], alpha),
+        lerp(previous[1], simulation.position[1], alpha),
+        lerp(previous[2], simulation.position[2], alpha),
+      );
+      bodyRef.current?.quaternion.fromArray(
+        quatSlerp(previousSnapshot.body.orientation, simulation.body.orientation, alpha),
+      );
+      const { contact } = simulation;
+      if (contactRef.current) {
+        contactRef.current.visible = contact !== null;
+        if (contact) contactRef.current.position.set(contact[0], 0.01, contact[2]);
+      }
+      poseRef.current = {
+        center: simulation.position,
+        orientation: simulation.body.orientation,
+        angularVelocity: worldAngularVelocity(simulation.body),
+        velocity: simulation.velocity,
+      };
+
+      if (onTelemetry && frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+        lastTelemetryRef.current = frame.clock.elapsedTime;
+        onTelemetry({
+          tilt: simulation.tilt,
+          spin: simulation.body.angularVelocity[1],
+          normalForce: simulation.normalForce,
+          slip: simulation.slip,
+          stance: simulation.stance,
+        });
+      }
+    },
+  );
+
+  return (
+    <group>
+      <FictitiousForces poseRef={poseRef} markers={rimMarkers} />
+
+      {/* Where the top touches the floor */}
+      <mesh ref={contactRef} rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[0.06, 16]} />
+        <meshBasicMaterial color="#EF4444" />
+      </mesh>
+
+      <group ref={bodyRef}>
+        {preset === 'tippe' ? <TippeTopShape /> : <SpinningTopShape rotor={rotor} tipLength={tipLength} />}
+      </group>
+    </group>
+  );
+};
+
+export default FloorTop;
@@ -0,0 +1,146 @@
+import React, { useMemo, useRef } from 'react';
+import { Group } from 'three';
+import { Vec3, length, normalize, quatFromUnitVectors, quatSlerp, sub } from '@/lib/physics/math';
+import { RigidBodyState, angularMomentum, createRigidBody, worldAngularVelocity } from '@/lib/physics/rigid-body';
+import { IntegratorId } from '@/lib/physics/integrators';
+import { Drift, EnergyMomentum } from '@/lib/physics/diagnostics';
+import { PrincipalAxis, freeBodyEnergyMomentum, principalAxisIndex, spinAxisAlignment } from '@/lib/physics/free-body';
+import { RotorProperties, rotorInertia } from '@/lib/physics/rotor';
+import { formatQuantity, fromRpm } from '@/lib/units';
+import { useDragTorque } from '@/hooks/use-drag-torque';
+import { useUnits } from '@/hooks/use-units';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import FictitiousForces, { BodyPose } from './FictitiousForces';
+import PoinsotConstruction from './PoinsotConstruction';
+import Rotor from './Rotor';
+import VectorDisplay from './VectorDisplay';
+
+// Height the body floats at
+const CENTER: Vec3 = [0, 2.5, 0];
+// How often the control panel is sent fresh readings (s)
+const TELEMETRY_INTERVAL = 0.1;
+
+// Rotation that lays a Y-aligned marker along body X, Y or Z
+const AXIS_MARKER_ROTATIONS: [number, number, number][] = [
+  [0, 0, Math.PI / 2],
+  [0, 0, 0],
+  [Math.PI / 2, 0, 0],
+];
+
+interface FreeBodyProps {
+  spinRate: number;
+  spinDirection: number;
+  rotor: RotorProperties;
+  // Principal axis the body is spun about at release
+  axis: PrincipalAxis;
+  // Spin about the other two axes at release, as a fraction of the spin rate
+  perturbation: number;
+  integrator: IntegratorId;
+  // Draw the inertia ellipsoid rolling on the invariable plane
+  poinsot?: boolean;
+  onTelemetry?: (telemetry: FreeBodyTelemetry) => void;
+}
+
+export interface FreeBodyTelemetry {
+  // Cosine of the angle between the spin axis and the angular momentum
+  alignment: number;
+  flips: number;
+  // Drift of the kinetic energy and the angular momentum since release
+  drift: Drift | null;
+  energyMomentum: EnergyMomentum;
+}
+
+const FreeBody: React.FC<FreeBodyProps> = ({
+  spinRate,
+  spinDirection,
+  rotor,
+  axis,
+  perturbation,
+  integrator,
+  poinsot = false,
+  onTelemetry,
+}) => {
+  const bodyRef = useRef<Group>(null);
+  const momentumRef = useRef<Group>(null);
+  const poseRef = useRef<BodyPose | null>(null);
+  const stateRef = useRef<RigidBodyState | null>(null);
+  const rigidBody = useMemo(() => createRigidBody(rotorInertia(rotor)), [rotor]);
+  // Points the fictitious forces are drawn at (body frame): the ends of the long side
+  const endMarkers = useMemo<Vec3[]>(
+    () => [
+      [rotor.radius, 0, 0],
+      [-rotor.radius, 0, 0],
+    ],
+    [rotor.radius],
+  );
+  const spin = fromRpm(spinRate * spinDirection);
+  const lastTelemetryRef = useRef(0);
+  // Grabbing the body and dragging pushes on it about its center of mass
+  const { drag, handlers } = useDragTorque(CENTER);
+  const units = useUnits();
+
+  // The body is stepped in the physics worker. Nothing drives a free body, so any change of
+  // the release conditions throws it again.
+  useWorkerSimulation(
+    'free-body',
+    { rotor, axis, spin, perturbation, integrator, push: drag?.torque ?? [0, 0, 0] },
+    (previous, simulation, alpha, frame) => {
+      bodyRef.current?.quaternion.fromArray(quatSlerp(previous.body.orientation, simulation.body.orientation, alpha));
+      poseRef.current = {
+        center: CENTER,
+        orientation: simulation.body.orientation,
+        angularVelocity: worldAngularVelocity(simulation.body),
+      };
+      stateRef.current = simulation.body;
+      const momentum = angularMomentum(rigidBody, simulation.body);
+      if (length(momentum) > 0) {
+        momentumRef.current?.quaternion.fromArray(quatFromUnitVectors([0, 1, 0], normalize(momentum)));
+      }
+      if (onTelemetry && frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+        lastTelemetryRef.current = frame.clock.elapsedTime;
+        onTelemetry({
+          alignment: spinAxisAlignment(rigidBody, simulation.body, axis),
+          flips: simulation.flips,
+          drift: simulation.drift,
+          energyMomentum: freeBodyEnergyMomentum(rigidBody, simulation.body),
+        });
+      }
+    },
+  );
+
+  return (
+    <>
+      <FictitiousForces poseRef={poseRef} markers={endMarkers} />
+      <group position={CENTER}>
+        {drag && length(sub(drag.to, drag.from)) > 0.01 && (
+          <VectorDisplay
+            axis={sub(drag.to, drag.from)}
+            magnitude={length(sub(drag.to, drag.from))}
+            position={sub(drag.from, CENTER)}
+            label={`Push: ${formatQuantity(units, 'torque', length(drag.torque), 1)}`}
+            color="#10B981"
+          />
+        )}
+
+        {poinsot && <PoinsotConstruction body={rigidBody} stateRef={stateRef} size={rotor.radius + 0.5} />}
+
+        {/* Angular momentum stays fixed in space while the body tumbles */}
+        <group ref={momentumRef}>
+          <VectorDisplay axis={[0, 1, 0]} magnitude={rotor.radius + 1} position={[0, 0, 0]} />
+        </group>
+
+        <group ref={bodyRef} {...handlers}>
+          <Rotor radius={rotor.radius} thickness={rotor.thickness} shape={rotor.shape} />
+
+          {/* Principal axis the body was spun about */}
+          <mesh rotation={AXIS_MARKER_ROTATIONS[principalAxisIndex(rigidBody, axis)]}>
+            <cylinderGeometry args={[0.025, 0.025, 2 * rotor.radius + 0.6, 8]} />
+            <meshBasicMaterial color="#3B82F6" />
+          </mesh>
+        </group>
+      </group>
+    </>
+  );
+};
+
+export default FreeBody;
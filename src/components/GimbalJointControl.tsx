@@ -0,0 +1,105 @@
+import React from 'react';
+import { GimbalJoint, GimbalJointMode } from '@/lib/physics/gimbal';
+import { Servo } from '@/lib/physics/servo';
+import { formatRate, toDisplay, unitSymbol } from '@/lib/units';
+import { useUnits } from '@/hooks/use-units';
+
+interface GimbalJointControlProps {
+  label: string;
+  joint: GimbalJoint;
+  onChange: (joint: GimbalJoint) => void;
+}
+
+const MODES: { mode: GimbalJointMode; label: string }[] = [
+  { mode: 'free', label: 'Free' },
+  { mode: 'locked', label: 'Locked' },
+  { mode: 'motorized', label: 'Motor' },
+  { mode: 'servo', label: 'PID' },
+];
+
+// Servo settings with a slider each, their ranges (SI) and their units given the torque unit
+const SERVO_SLIDERS: {
+  key: keyof Servo;
+  label: string;
+  unit: (torque: string) => string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'kp', label: 'Kp', unit: (torque) => `${torque}/rad`, min: 0, max: 100, step: 1 },
+  { key: 'ki', label: 'Ki', unit: (torque) => `${torque}/(rad·s)`, min: 0, max: 50, step: 0.5 },
+  { key: 'kd', label: 'Kd', unit: (torque) => `${torque}·s/rad`, min: 0, max: 40, step: 0.5 },
+  { key: 'maxTorque', label: 'Torque Limit', unit: (torque) => torque, min: 1, max: 50, step: 1 },
+];
+
+const GimbalJointControl: React.FC<GimbalJointControlProps> = ({ label, joint, onChange }) => {
+  const units = useUnits();
+
+  return (
+    <div className="mb-3">
+      <span className="block text-xs text-gray-600 mb-1">{label}</span>
+      <div className="flex space-x-2">
+        {MODES.map(({ mode, label: modeLabel }) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...joint, mode })}
+            className={`px-3 py-1 rounded text-sm ${
+              joint.mode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            {modeLabel}
+          </button>
+        ))}
+      </div>
+      {joint.mode === 'motorized' && (
+        <div className="mt-2">
+          <label className="block text-xs text-gray-600 mb-1">Motor Rate: {formatRate(units, joint.rate)}</label>
+          <input
+            type="range"
+            min="-90"
+            max="90"
+            value={(joint.rate * 180) / Math.PI}
+            onChange={(e) => onChange({ ...joint, rate: (Number(e.target.value) * Math.PI) / 180 })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+      {joint.mode === 'servo' && (
+        <div className="mt-2">
+          <label className="block text-xs text-gray-600 mb-1">
+            Target Angle: {((joint.servo.target * 180) / Math.PI).toFixed(0)}°
+          </label>
+          <input
+            type="range"
+            min="-180"
+            max="180"
+            value={(joint.servo.target * 180) / Math.PI}
+            onChange={(e) =>
+              onChange({ ...joint, servo: { ...joint.servo, target: (Number(e.target.value) * Math.PI) / 180 } })
+            }
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+          {SERVO_SLIDERS.map(({ key, label: sliderLabel, unit, min, max, step }) => (
+            <div key={key} className="mt-2">
+              <label className="block text-xs text-gray-600 mb-1">
+                {sliderLabel}: {toDisplay(units, 'torque', joint.servo[key]).toFixed(step < 1 ? 1 : 0)}{' '}
+                {unit(unitSymbol(units, 'torque'))}
+              </label>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={joint.servo[key]}
+                onChange={(e) => onChange({ ...joint, servo: { ...joint.servo, [key]: Number(e.target.value) } })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GimbalJointControl;
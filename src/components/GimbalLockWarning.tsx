@@ -0,0 +1,39 @@
+import React from 'react';
+import { wrapAngle } from '@/lib/physics/math';
+import { GIMBAL_EULER_SEQUENCE, GimbalAngles, GimbalSingularity } from '@/lib/physics/gimbal';
+
+interface GimbalLockWarningProps {
+  angles: GimbalAngles;
+  singularity: GimbalSingularity;
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const GimbalLockWarning: React.FC<GimbalLockWarningProps> = ({ angles, singularity }) => {
+  if (singularity.state === 'free') {
+    return null;
+  }
+
+  const locked = singularity.state === 'locked';
+
+  return (
+    <div
+      className={`mb-4 p-3 rounded border text-xs ${
+        locked ? 'bg-red-50 border-red-300 text-red-800' : 'bg-amber-50 border-amber-300 text-amber-800'
+      }`}
+    >
+      <p className="font-semibold mb-1">{locked ? 'Gimbal lock' : 'Approaching gimbal lock'}</p>
+      <p>
+        Euler sequence {GIMBAL_EULER_SEQUENCE}: outer {toDegrees(wrapAngle(angles.outer)).toFixed(1)}°, inner{' '}
+        {toDegrees(angles.inner).toFixed(1)}°
+      </p>
+      <p>
+        Axle is {toDegrees(singularity.margin).toFixed(1)}° from the outer pivot axis (det{' '}
+        {singularity.determinant.toFixed(3)})
+      </p>
+      <p>The outer and spin axes coincide, so the mount cannot rotate about the highlighted direction.</p>
+    </div>
+  );
+};
+
+export default GimbalLockWarning;
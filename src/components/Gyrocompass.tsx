@@ -0,0 +1,213 @@
+import React, { useMemo, useRef } from 'react';
+import { Html } from '@react-three/drei';
+import { Group } from 'three';
+import { Vec3, lerp, normalize } from '@/lib/physics/math';
+import { EARTH_RATE, GyrocompassParams, gyrocompassEquilibrium, headingOf, tiltOf } from '@/lib/physics/gyrocompass';
+import { RotorProperties, rotorInertia } from '@/lib/physics/rotor';
+import { fromRpm } from '@/lib/units';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import Rotor from './Rotor';
+import VectorDisplay from './VectorDisplay';
+
+// Clearance between the pendulous weight and the floor
+const FLOOR_CLEARANCE = 0.4;
+// Radius of the compass rose on the floor
+const ROSE_RADIUS = 2.5;
+// How often the control panel is sent fresh readings (s)
+const TELEMETRY_INTERVAL = 0.1;
+
+// Cardinal points on the floor: north is −Z and east is +X
+const CARDINALS: { label: string; position: Vec3 }[] = [
+  { label: 'N', position: [0, 0.05, -ROSE_RADIUS - 0.3] },
+  { label: 'E', position: [ROSE_RADIUS + 0.3, 0.05, 0] },
+  { label: 'S', position: [0, 0.05, ROSE_RADIUS + 0.3] },
+  { label: 'W', position: [-ROSE_RADIUS - 0.3, 0.05, 0] },
+];
+
+interface GyrocompassProps {
+  spinRate: number;
+  rotor: RotorProperties;
+  // Latitude of the room (degrees, north positive)
+  latitude: number;
+  // Factor the Earth rate is sped up by
+  earthRateScale: number;
+  // Gravity torque from the bottom-heavy case at 90° of tilt (N·m)
+  pendulosity: number;
+  // Damping torque as a fraction of the pendulous torque
+  damping: number;
+  // Heading the axle is released level at (degrees clockwise from north)
+  initialHeading: number;
+  onTelemetry?: (telemetry: GyrocompassTelemetry) => void;
+}
+
+export interface GyrocompassTelemetry {
+  // Heading clockwise from north and tilt above the horizon of the axle (rad)
+  heading: number;
+  tilt: number;
+  // Time since release, and when the heading settled (s)
+  time: number;
+  settledAt: number | null;
+  // Whether the axle keeps swinging round instead of settling
+  circling: boolean;
+  // Heading and tilt the compass settles at, or null if it cannot settle
+  equilibrium: { heading: number; tilt: number } | null;
+}
+
+// Local frame (east, north, up) to scene coordinates
+const toScene = ([east, north, up]: Vec3): Vec3 => [east, up, -north];
+
+// A pendulous, damped gyroscope on a room that turns with the Earth. The rotor spins about a
+// level axle in a bottom-heavy case that is free to turn in azimuth and to tilt; the Earth's
+// rotation lifts the axle out of level, and the case's weight turns that tilt into
+// precession towards true north.
+const Gyrocompass: React.FC<GyrocompassProps> = ({
+  spinRate,
+  rotor,
+  latitude,
+  earthRateScale,
+  pendulosity,
+  damping,
+  initialHeading,
+  onTelemetry,
+}) => {
+  const azimuthRef = useRef<Group>(null);
+  const tiltRef = useRef<Group>(null);
+  const rotorRef = useRef<Group>(null);
+  const { radius, thickness } = rotor;
+  const caseRadius = radius + 0.3;
+  // The case hangs from an overhead arm, with its weight clear of the floor
+  const centerHeight = caseRadius + 0.6 + FLOOR_CLEARANCE;
+  const armHeight = caseRadius + 0.6;
+  const standOffset = caseRadius + 0.8;
+
+  // The north-seeking end is the one the angular momentum points along, whichever way the
+  // rotor spins
+  const spin = fromRpm(spinRate);
+  const momentum = rotorInertia(rotor)[4] * spin;
+  const params = useMemo<GyrocompassParams>(
+    () => ({
+      momentum,
+      pendulosity,
+      damping,
+      latitude: (latitude * Math.PI) / 180,
+      earthRate: EARTH_RATE * earthRateScale,
+    }),
+    [momentum, pendulosity, damping, latitude, earthRateScale],
+  );
+  const equilibrium = useMemo(() => gyrocompassEquilibrium(params), [params]);
+
+  const lastTelemetryRef = useRef(0);
+
+  // The axle is stepped in the physics worker, which releases it again on any change: the
+  // settling time is measured from release
+  useWorkerSimulation(
+    'gyrocompass',
+    { ...params, initialHeading: (initialHeading * Math.PI) / 180, spin },
+    (previous, simulation, alpha, frame) => {
+      const axis = normalize([0, 1, 2].map((i) => lerp(previous.axis[i], simulation.axis[i], alpha)) as Vec3);
+      azimuthRef.current?.rotation.set(0, -headingOf(axis), 0);
+      tiltRef.current?.rotation.set(tiltOf(axis), 0, 0);
+      rotorRef.current?.rotation.set(0, lerp(previous.spinAngle, simulation.spinAngle, alpha), 0);
+
+      if (onTelemetry && frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+        lastTelemetryRef.current = frame.clock.elapsedTime;
+        onTelemetry({
+          heading: headingOf(simulation.axis),
+          tilt: tiltOf(simulation.axis),
+          time: simulation.time,
+          settledAt: simulation.settledAt,
+          circling: simulation.circling,
+          equilibrium,
+        });
+      }
+    },
+  );
+
+  const earthAxis = toScene([0, Math.cos(params.latitude), Math.sin(params.latitude)]);
+
+  return (
+    <group>
+      {/* Compass rose with the true meridian marked in red */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]}>
+        <ringGeometry args={[ROSE_RADIUS - 0.04, ROSE_RADIUS, 64]} />
+        <meshBasicMaterial color="#6B7280" />
+      </mesh>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, -ROSE_RADIUS / 2]}>
+        <planeGeometry args={[0.04, ROSE_RADIUS]} />
+        <meshBasicMaterial color="#EF4444" />
+      </mesh>
+      {CARDINALS.map(({ label, position }) => (
+        <Html key={label} position={position} center>
+          <div className="text-sm font-bold text-gray-700">{label}</div>
+        </Html>
+      ))}
+
+      <group position={[0, centerHeight, 0]}>
+        {/* Stand: upright to the west with an arm the case hangs from */}
+        <mesh position={[-standOffset, (armHeight - centerHeight) / 2, 0]} castShadow>
+          <boxGeometry args={[0.15, centerHeight + armHeight, 0.15]} />
+          <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+        </mesh>
+        <mesh position={[-standOffset / 2, armHeight, 0]} castShadow>
+          <boxGeometry args={[standOffset, 0.12, 0.15]} />
+          <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+        </mesh>
+        <mesh position={[0, (armHeight + caseRadius + 0.15) / 2, 0]} castShadow>
+          <cylinderGeometry args={[0.03, 0.03, armHeight - caseRadius - 0.15, 8]} />
+          <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+        </mesh>
+
+        {/* The Earth's axis, raised above the northern horizon by the latitude (below it in the south) */}
+        <VectorDisplay
+          axis={earthAxis}
+          magnitude={caseRadius + 1}
+          position={[0, 0, 0]}
+          label="Earth axis"
+          color="#3B82F6"
+        />
+
+        <group ref={azimuthRef}>
+          {/* Azimuth ring, turning freely about the vertical */}
+          <mesh castShadow>
+            <torusGeometry args={[caseRadius + 0.15, 0.05, 12, 48]} />
+            <meshStandardMaterial color="#CD7F32" metalness={0.7} roughness={0.3} />
+          </mesh>
+
+          <group ref={tiltRef}>
+            {/* Case, tilting about the east-west axis, with its weight hanging below */}
+            <mesh rotation={[0, Math.PI / 2, 0]} castShadow>
+              <torusGeometry args={[caseRadius, 0.06, 12, 48]} />
+              <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+            </mesh>
+            <mesh position={[0, -caseRadius - 0.2, 0]} castShadow>
+              <cylinderGeometry args={[0.03, 0.03, 0.4, 8]} />
+              <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+            </mesh>
+            <mesh position={[0, -caseRadius - 0.45, 0]} castShadow>
+              <sphereGeometry args={[0.15, 16, 16]} />
+              <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+            </mesh>
+
+            {/* Rotor with its axle along the north-seeking direction (−Z) */}
+            <group rotation={[-Math.PI / 2, 0, 0]}>
+              <Rotor
+                ref={rotorRef}
+                radius={radius}
+                thickness={thickness}
+                shape={rotor.shape}
+                axleLength={2 * caseRadius}
+              />
+              {/* North-seeking end of the axle */}
+              <mesh position={[0, caseRadius + 0.1, 0]}>
+                <coneGeometry args={[0.08, 0.2, 12]} />
+                <meshBasicMaterial color="#EF4444" />
+              </mesh>
+            </group>
+          </group>
+        </group>
+      </group>
+    </group>
+  );
+};
+
+export default Gyrocompass;
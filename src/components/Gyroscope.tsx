@@ -0,0 +1,330 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Group } from 'three';
+import { Vec3, length, lerp, quatFromUnitVectors, quatRotate, sub } from '@/lib/physics/math';
+import { worldAngularVelocity } from '@/lib/physics/rigid-body';
+import { IntegratorId } from '@/lib/physics/integrators';
+import { Drift, EnergyMomentum } from '@/lib/physics/diagnostics';
+import {
+  GimbalAngles,
+  GimbalJoints,
+  GimbalLockState,
+  GimbalReaction,
+  GimbalSingularity,
+  gimbalSingularity,
+} from '@/lib/physics/gimbal';
+import { GimbalRingMasses, RotorProperties, gimbalRingsForRotor } from '@/lib/physics/rotor';
+import { roomOrientation } from '@/lib/physics/rotating-frame';
+import { formatQuantity, fromRpm } from '@/lib/units';
+import { useDragTorque } from '@/hooks/use-drag-torque';
+import { useUnits } from '@/hooks/use-units';
+import { useRoomFrame } from '@/hooks/use-room-frame';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import FictitiousForces, { BodyPose } from './FictitiousForces';
+import Rotor from './Rotor';
+import VectorDisplay from './VectorDisplay';
+
+// Clearance of the outer ring above the floor, and of the stand uprights beside it
+const FLOOR_CLEARANCE = 0.2;
+const STAND_CLEARANCE = 0.3;
+
+// How often the control panel is sent fresh readings (s), and how many are kept for the traces
+const TELEMETRY_INTERVAL = 0.1;
+const TRACE_LENGTH = 200;
+
+export const DEFAULT_RING_COLOR = '#CD7F32';
+
+const LOCK_HIGHLIGHT_COLORS: Record<GimbalLockState, string> = {
+  free: '#9CA3AF',
+  near: '#F59E0B',
+  locked: '#EF4444',
+};
+
+interface GyroscopeProps {
+  spinRate: number;
+  spinDirection: number;
+  // Unit vector in the world frame
+  spinAxis: Vec3;
+  joints: GimbalJoints;
+  // Swing the inner ring until the axle lines up with the outer pivot
+  lockDemo: boolean;
+  integrator: IntegratorId;
+  rotor: RotorProperties;
+  ringMasses: GimbalRingMasses;
+  // Where the stand sits on the floor (y is ignored)
+  position?: Vec3;
+  // Color of the outer ring, to tell gyroscopes apart
+  color?: string;
+  // Marked on the floor, e.g. while the control panel edits it
+  selected?: boolean;
+  // Called when the stand is clicked
+  onSelect?: () => void;
+  onTelemetry?: (telemetry: GyroscopeTelemetry) => void;
+}
+
+export interface GimbalSample {
+  time: number;
+  // Ring angles (rad) and the torque on each pivot (N·m)
+  outer: number;
+  inner: number;
+  reaction: GimbalReaction;
+}
+
+export interface GyroscopeTelemetry {
+  angles: GimbalAngles;
+  singularity: GimbalSingularity;
+  reaction: GimbalReaction;
+  // Drift of the kinetic energy and the momentum about the outer pivot; only defined while both rings are free
+  drift: Drift | null;
+  // Drift of the same from sharing momentum between the rotor and the rings, apart from the integrator's
+  coupling: Drift | null;
+  energyMomentum: EnergyMomentum;
+  // Most recent samples, oldest first, for the servos' step response
+  trace: GimbalSample[];
+}
+
+const Gyroscope: React.FC<GyroscopeProps> = ({
+  spinRate,
+  spinDirection,
+  spinAxis,
+  joints,
+  lockDemo,
+  integrator,
+  rotor,
+  ringMasses,
+  position = [0, 0, 0],
+  color = DEFAULT_RING_COLOR,
+  selected = false,
+  onSelect,
+  onTelemetry,
+}) => {
+  const outerGimbalRef = useRef<Group>(null);
+  const innerGimbalRef = useRef<Group>(null);
+  const rotorRef = useRef<Group>(null);
+  const lostAxisRef = useRef<Group>(null);
+  const baseRef = useRef<Group>(null);
+  const poseRef = useRef<BodyPose | null>(null);
+  const roomFrame = useRoomFrame();
+  const baseRate = roomFrame?.rate ?? 0;
+  const lastTelemetryRef = useRef(0);
+  const traceRef = useRef<GimbalSample[]>([]);
+  const [lockState, setLockState] = useState<GimbalLockState>('free');
+
+  // The rings are drawn from the same sizes and masses their inertia is computed from
+  const rings = gimbalRingsForRotor(rotor, ringMasses);
+  const outerRingRadius = rings.outer.radius;
+  const innerRingRadius = rings.inner.radius;
+  const ringTube = rings.outer.tube;
+  // Height of the gimbal center above the floor
+  const centerHeight = outerRingRadius + FLOOR_CLEARANCE;
+  // Half-width of the U-shaped stand that carries the outer ring pivots
+  const standHalfWidth = outerRingRadius + STAND_CLEARANCE;
+
+  // Grabbing the rings or the axle and dragging pushes on the rotor about the gimbal center,
+  // which travels round with the room when it turns
+  const center: Vec3 = [position[0], centerHeight, position[2]];
+  const { drag, handlers } = useDragTorque(() => poseRef.current?.center ?? center);
+  const units = useUnits();
+
+  const spin = fromRpm(spinRate * spinDirection);
+  // Rim points the fictitious forces are drawn at (rotor frame)
+  const rimMarkers = useMemo<Vec3[]>(
+    () => [
+      [rotor.radius, 0, 0],
+      [-rotor.radius, 0, 0],
+    ],
+    [rotor.radius],
+  );
+
+  // The rotor and rings are stepped in the physics worker, which starts the stand out turned
+  // with the room and picks up the changes of setting: a new spin axis swings the rings
+  // round, a locked ring is held where it is
+  useWorkerSimulation(
+    'gimbal',
+    {
+      spin,
+      spinAxis,
+      joints,
+      lockDemo,
+      integrator,
+      rotor,
+      ringMasses,
+      baseRate,
+      push: drag?.torque ?? [0, 0, 0],
+    },
+    (previousSnapshot, simulation, alpha, frame) => {
+      const previous = previousSnapshot.angles;
+      const angles: GimbalAngles = {
+        outer: lerp(previous.outer, simulation.angles.outer, alpha),
+        inner: lerp(previous.inner, simulation.angles.inner, alpha),
+        spin: lerp(previous.spin, simulation.angles.spin, alpha),
+      };
+      const baseAngle = lerp(previousSnapshot.baseAngle, simulation.baseAngle, alpha);
+      baseRef.current?.rotation.set(0, baseAngle, 0);
+      outerGimbalRef.current?.rotation.set(angles.outer, 0, 0);
+      innerGimbalRef.current?.rotation.set(0, 0, angles.inner);
+      rotorRef.current?.rotation.set(0, angles.spin, 0);
+
+      poseRef.current = {
+        center: quatRotate(roomOrientation(baseAngle), center),
+        orientation: simulation.body.orientation,
+        angularVelocity: worldAngularVelocity(simulation.body),
+      };
+
+      // Point the lost-DOF arrow and report how close the mount is to the singularity
+      const singularity = gimbalSingularity(angles);
+      lostAxisRef.current?.quaternion.fromArray(quatFromUnitVectors([0, 1, 0], singularity.lostAxis));
+      if (singularity.state !== lockState) {
+        setLockState(singularity.state);
+      }
+      if (onTelemetry && frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+        lastTelemetryRef.current = frame.clock.elapsedTime;
+        const sample = {
+          time: frame.clock.elapsedTime,
+          outer: angles.outer,
+          inner: angles.inner,
+          reaction: simulation.reaction,
+        };
+        traceRef.current = [...traceRef.current.slice(1 - TRACE_LENGTH), sample];
+        onTelemetry({
+          angles,
+          singularity,
+          reaction: simulation.reaction,
+          drift: simulation.drift,
+          coupling: simulation.coupling,
+          energyMomentum: simulation.energyMomentum,
+          trace: traceRef.current,
+        });
+      }
+    },
+  );
+
+  const highlightColor = LOCK_HIGHLIGHT_COLORS[lockState];
+
+  return (
+    <>
+      <FictitiousForces poseRef={poseRef} markers={rimMarkers} />
+      {drag && length(sub(drag.to, drag.from)) > 0.01 && (
+        <VectorDisplay
+          axis={sub(drag.to, drag.from)}
+          magnitude={length(sub(drag.to, drag.from))}
+          position={drag.from}
+          label={`Push: ${formatQuantity(units, 'torque', length(drag.torque), 1)}`}
+          color="#10B981"
+        />
+      )}
+
+      {/* Everything below turns with the room, about the room's axis */}
+      <group ref={baseRef}>
+        <group position={center}>
+          {selected && (
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02 - centerHeight, 0]}>
+              <ringGeometry args={[standHalfWidth + 0.4, standHalfWidth + 0.5, 48]} />
+              <meshBasicMaterial color={color} />
+            </mesh>
+          )}
+
+          {/* Stand: base bar on the floor with two uprights carrying the outer pivots */}
+          <group
+            onClick={(event) => {
+              event.stopPropagation();
+              onSelect?.();
+            }}
+          >
+            <mesh position={[0, 0.05 - centerHeight, 0]} castShadow receiveShadow>
+              <boxGeometry args={[2 * standHalfWidth + 0.3, 0.1, 0.6]} />
+              <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+            </mesh>
+            {[-1, 1].map((side) => (
+              <mesh key={side} position={[side * standHalfWidth, -centerHeight / 2, 0]} castShadow>
+                <boxGeometry args={[0.15, centerHeight, 0.15]} />
+                <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+              </mesh>
+            ))}
+          </group>
+
+          {/* Outer pivot pins along the frame X axis */}
+          {[-1, 1].map((side) => (
+            <mesh
+              key={side}
+              position={[side * (outerRingRadius + standHalfWidth) / 2, 0, 0]}
+              rotation={[0, 0, Math.PI / 2]}
+              castShadow
+            >
+              <cylinderGeometry args={[0.05, 0.05, standHalfWidth - outerRingRadius, 8]} />
+              <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+            </mesh>
+          ))}
+
+          {lockState !== 'free' && (
+            <>
+              {/* Outer pivot axis, highlighted as the axle lines up with it */}
+              <mesh rotation={[0, 0, Math.PI / 2]}>
+                <cylinderGeometry args={[0.025, 0.025, 2 * standHalfWidth + 1, 8]} />
+                <meshBasicMaterial color={highlightColor} />
+              </mesh>
+
+              {/* Rotation the mount can no longer follow */}
+              <group ref={lostAxisRef}>
+                <VectorDisplay
+                  axis={[0, 1, 0]}
+                  magnitude={outerRingRadius + 0.6}
+                  position={[0, 0, 0]}
+                  label={lockState === 'locked' ? 'Lost DOF (gimbal lock)' : 'Lost DOF (near lock)'}
+                  color={highlightColor}
+                />
+              </group>
+            </>
+          )}
+
+          <group ref={outerGimbalRef} {...handlers}>
+            {/* Outer Gimbal Ring - pivots about the frame X axis */}
+            <mesh rotation={[Math.PI / 2, 0, 0]} castShadow>
+              <torusGeometry args={[outerRingRadius, ringTube, 12, 32]} />
+              <meshStandardMaterial color={color} metalness={0.7} roughness={0.3} />
+            </mesh>
+
+            {/* Inner pivot pins along the outer ring's Z axis */}
+            {[-1, 1].map((side) => (
+              <mesh
+                key={side}
+                position={[0, 0, side * (outerRingRadius + innerRingRadius) / 2]}
+                rotation={[Math.PI / 2, 0, 0]}
+                castShadow
+              >
+                <cylinderGeometry args={[0.05, 0.05, outerRingRadius - innerRingRadius, 8]} />
+                <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+              </mesh>
+            ))}
+
+            <group ref={innerGimbalRef}>
+              {/* Inner Gimbal Ring - pivots about the outer ring's Z axis */}
+              <mesh rotation={[0, Math.PI / 2, 0]} castShadow>
+                <torusGeometry args={[innerRingRadius, ringTube, 12, 32]} />
+                <meshStandardMaterial color="#B8860B" metalness={0.7} roughness={0.3} />
+              </mesh>
+
+              {/* Spin axis, highlighted together with the outer pivot axis */}
+              {lockState !== 'free' && (
+                <mesh>
+                  <cylinderGeometry args={[0.025, 0.025, 2 * standHalfWidth + 1, 8]} />
+                  <meshBasicMaterial color={highlightColor} />
+                </mesh>
+              )}
+
+              {/* Rotor - spins about the inner ring's Y axis */}
+              <Rotor
+                ref={rotorRef}
+                radius={rotor.radius}
+                thickness={rotor.thickness}
+                shape={rotor.shape}
+                axleLength={2 * innerRingRadius}
+              />
+            </group>
+          </group>
+        </group>
+      </group>
+    </>
+  );
+};
+
+export default Gyroscope;
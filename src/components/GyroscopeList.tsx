@@ -0,0 +1,105 @@
+import React from 'react';
+import { Vec3 } from '@/lib/physics/math';
+import { FLOOR_EXTENT, GYROSCOPE_COLORS, MAX_GYROSCOPES, SceneGyroscope } from '@/lib/scene';
+import { formatQuantity, formatRate, fromRpm } from '@/lib/units';
+import { useUnits } from '@/hooks/use-units';
+
+interface GyroscopeListProps {
+  gyroscopes: SceneGyroscope[];
+  selected: SceneGyroscope;
+  onSelect: (id: number) => void;
+  onAdd: () => void;
+  onRemove: (id: number) => void;
+  onChange: (patch: Partial<SceneGyroscope>) => void;
+}
+
+// Scene list: pick the gyroscope the rest of the panel edits, add and remove gyroscopes, and
+// place and color the selected one
+const GyroscopeList: React.FC<GyroscopeListProps> = ({ gyroscopes, selected, onSelect, onAdd, onRemove, onChange }) => {
+  const units = useUnits();
+
+  return (
+    <div>
+      <div className="space-y-1 mb-2">
+        {gyroscopes.map((gyroscope, index) => (
+          <div
+            key={gyroscope.id}
+            onClick={() => onSelect(gyroscope.id)}
+            className={`flex items-center justify-between px-2 py-1 rounded cursor-pointer text-sm ${
+              gyroscope.id === selected.id ? 'bg-blue-100 text-blue-900' : 'bg-gray-100 text-gray-700'
+            }`}
+          >
+            <span className="flex items-center space-x-2">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: gyroscope.color }} />
+              <span>
+                Gyroscope {index + 1}: {formatRate(units, fromRpm(gyroscope.spinRate))}
+              </span>
+            </span>
+            {gyroscopes.length > 1 && (
+              <button
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onRemove(gyroscope.id);
+                }}
+                className="text-xs text-gray-500 hover:text-red-600"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center space-x-2 mb-3">
+        <button
+          onClick={onAdd}
+          disabled={gyroscopes.length >= MAX_GYROSCOPES}
+          className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Gyroscope
+        </button>
+        {gyroscopes.length >= MAX_GYROSCOPES && (
+          <span className="text-xs text-gray-500">The room holds at most {MAX_GYROSCOPES}.</span>
+        )}
+      </div>
+
+      {(['X', 'Z'] as const).map((axis) => {
+        const index = axis === 'X' ? 0 : 2;
+        return (
+          <div key={axis} className="mb-2">
+            <label className="block text-xs text-gray-600 mb-1">
+              Position {axis}: {formatQuantity(units, 'length', selected.position[index], 1)}
+            </label>
+            <input
+              type="range"
+              min={-FLOOR_EXTENT}
+              max={FLOOR_EXTENT}
+              step="0.5"
+              value={selected.position[index]}
+              onChange={(e) => {
+                const position = [...selected.position] as Vec3;
+                position[index] = Number(e.target.value);
+                onChange({ position });
+              }}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        );
+      })}
+
+      <label className="block text-xs text-gray-600 mb-1">Color</label>
+      <div className="flex space-x-1">
+        {GYROSCOPE_COLORS.map((color) => (
+          <button
+            key={color}
+            onClick={() => onChange({ color })}
+            title={color}
+            className={`w-6 h-6 rounded-full border-2 ${selected.color === color ? 'border-gray-800' : 'border-transparent'}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GyroscopeList;
@@ -1,92 +1,108 @@
 
-import React, { useRef, useState } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Environment } from '@react-three/drei';
+import React, { useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, Environment, Stars } from '@react-three/drei';
 import * as THREE from 'three';
-import { Mesh } from 'three';
-
-interface GyroscopeProps {
-  spinRate: number;
-  spinDirection: number;
-  spinAxis: [number, number, number];
-  gimbalLocked: boolean;
-}
-
-const Gyroscope: React.FC<GyroscopeProps> = ({ spinRate, spinDirection, spinAxis, gimbalLocked }) => {
-  const outerGimbalRef = useRef<Mesh>(null);
-  const innerGimbalRef = useRef<Mesh>(null);
-  const wheelRef = useRef<Mesh>(null);
-  const trailRef = useRef<THREE.Points>(null);
-
-  useFrame((state, delta) => {
-    if (wheelRef.current) {
-      // Calculate rotation speed in radians per frame
-      const rotationSpeed = (spinRate * spinDirection * delta * Math.PI) / 30; // Convert RPM to rad/frame
-      
-      // Apply rotation to the spinning wheel based on the selected axis
-      if (spinAxis[0] === 1) {
-        // X-axis rotation
-        wheelRef.current.rotation.x += rotationSpeed;
-      } else if (spinAxis[1] === 1) {
-        // Y-axis rotation
-        wheelRef.current.rotation.y += rotationSpeed;
-      } else if (spinAxis[2] === 1) {
-        // Z-axis rotation
-        wheelRef.current.rotation.z += rotationSpeed;
-      }
-    }
+import { Vec3, wrapAngle } from '@/lib/physics/math';
+import { GIMBAL_EULER_SEQUENCE, GimbalJoints, gimbalOrientations } from '@/lib/physics/gimbal';
+import { INTEGRATORS, IntegratorId } from '@/lib/physics/integrators';
+import { formatDrift } from '@/lib/physics/diagnostics';
+import { PRINCIPAL_AXES, PrincipalAxis } from '@/lib/physics/free-body';
+import { EARTH_RATE_SCALES, SETTLE_TOLERANCE } from '@/lib/physics/gyrocompass';
+import { FLOOR_TOP_PRESETS, FloorTopPreset, FloorTopStance } from '@/lib/physics/floor-top';
+import { CmgSingularityKind, MAX_CMGS } from '@/lib/physics/cmg';
+import {
+  ATTITUDE_CONTROLLERS,
+  AttitudeController,
+  WHEEL_COLORS,
+  WHEEL_LAYOUTS,
+  WheelLayout,
+} from '@/lib/physics/reaction-wheels';
+import { FrameView } from '@/hooks/use-room-frame';
+import { UnitsContext } from '@/hooks/use-units';
+import { GimbalRingMasses, RotorProperties, gimbalRingsForRotor, ringInertia } from '@/lib/physics/rotor';
+import { SceneGyroscope, addSceneGyroscope, createSceneGyroscope } from '@/lib/scene';
+import {
+  DEFAULT_UNITS,
+  RATE_UNITS,
+  UNIT_SYSTEMS,
+  Units,
+  formatQuantity,
+  formatRate,
+  fromRpm,
+  rateToDisplay,
+  rateSymbol,
+  toDisplay,
+  unitSymbol,
+} from '@/lib/units';
+import ConservationHud from './ConservationHud';
+import GimbalJointControl from './GimbalJointControl';
+import GimbalLockWarning from './GimbalLockWarning';
+import Gyroscope, { GyroscopeTelemetry } from './Gyroscope';
+import GyroscopeList from './GyroscopeList';
+import OrientationInspector from './OrientationInspector';
+import FloorTop, { FloorTopTelemetry } from './FloorTop';
+import FreeBody, { FreeBodyTelemetry } from './FreeBody';
+import Gyrocompass, { GyrocompassTelemetry } from './Gyrocompass';
+import PivotedTop, { PivotedTopTelemetry } from './PivotedTop';
+import ReactionWheelSpacecraft, { ReactionWheelTelemetry } from './ReactionWheelSpacecraft';
+import RoomFrame from './RoomFrame';
+import RotorPropertiesControl from './RotorPropertiesControl';
+import Spacecraft, { SpacecraftTelemetry } from './Spacecraft';
+import SpinAxisPicker from './SpinAxisPicker';
+import TracePlot from './TracePlot';
 
-    // Gimbal physics simulation
-    if (!gimbalLocked && outerGimbalRef.current && innerGimbalRef.current) {
-      // Subtle gimbal movement for realism
-      outerGimbalRef.current.rotation.x += Math.sin(state.clock.elapsedTime * 0.5) * 0.001;
-      innerGimbalRef.current.rotation.z += Math.cos(state.clock.elapsedTime * 0.3) * 0.001;
-    }
-  });
+type SimulationMode = 'gimbal' | 'top' | 'free' | 'compass' | 'floor' | 'spacecraft' | 'wheels';
 
-  return (
-    <group position={[0, 2.2, 0]} castShadow receiveShadow>
-      {/* Outer Gimbal Ring */}
-      <mesh ref={outerGimbalRef} castShadow>
-        <torusGeometry args={[2, 0.08, 12, 32]} />
-        <meshStandardMaterial color="#CD7F32" metalness={0.7} roughness={0.3} />
-      </mesh>
+// Modes whose integrator can be picked; the others step their own way
+type IntegratedMode = Exclude<SimulationMode, 'compass' | 'floor' | 'spacecraft' | 'wheels'>;
 
-      {/* Inner Gimbal Ring */}
-      <mesh ref={innerGimbalRef} rotation={[Math.PI / 2, 0, 0]} castShadow>
-        <torusGeometry args={[1.5, 0.08, 12, 32]} />
-        <meshStandardMaterial color="#B8860B" metalness={0.7} roughness={0.3} />
-      </mesh>
+const isIntegrated = (mode: SimulationMode): mode is IntegratedMode =>
+  mode !== 'compass' && mode !== 'floor' && mode !== 'spacecraft' && mode !== 'wheels';
 
-      {/* Central Spinning Wheel */}
-      <mesh ref={wheelRef} castShadow>
-        <cylinderGeometry args={[1, 1, 0.3, 32]} />
-        <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
-      </mesh>
+// Modes set in free space rather than in the room
+const isInSpace = (mode: SimulationMode) => mode === 'spacecraft' || mode === 'wheels';
 
-      {/* Wheel Details - concentric rings for classic look */}
-      <mesh rotation={[Math.PI / 2, 0, 0]} castShadow>
-        <torusGeometry args={[0.8, 0.03, 8, 32]} />
-        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
-      </mesh>
-      <mesh rotation={[Math.PI / 2, 0, 0]} castShadow>
-        <torusGeometry args={[0.6, 0.03, 8, 32]} />
-        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
-      </mesh>
-      <mesh rotation={[Math.PI / 2, 0, 0]} castShadow>
-        <torusGeometry args={[0.4, 0.03, 8, 32]} />
-        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
-      </mesh>
+// What each mode measures the integrator's drift on
+const DRIFT_LABELS: Record<IntegratedMode, { energy: string; momentum: string }> = {
+  gimbal: { energy: 'Kinetic energy', momentum: 'Outer-pivot angular momentum' },
+  top: { energy: 'Total energy', momentum: 'Vertical angular momentum' },
+  free: { energy: 'Kinetic energy', momentum: 'Angular momentum' },
+};
 
-      {/* Base support */}
-      <mesh position={[0, -1.2, 0]} castShadow>
-        <cylinderGeometry args={[0.3, 0.5, 0.4, 8]} />
-        <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
-      </mesh>
-    </group>
-  );
+const DRAG_HINTS: Record<SimulationMode, string> = {
+  gimbal: 'Drag the rings or axle to push on them.',
+  top: 'Drag the top to push on it.',
+  free: 'Drag the body to push on it.',
+  compass: 'The red end of the axle seeks true north.',
+  floor: 'The red spot marks where the top touches the floor.',
+  spacecraft: 'Turn the gimbals to slew the spacecraft.',
+  wheels: 'The green wireframe is the target attitude.',
+};
+
+const STANCE_LABELS: Record<FloorTopStance, string> = {
+  spinning: 'spinning',
+  fallen: 'fallen over onto its rim',
+  inverted: 'turned over onto its stem',
 };
 
+const SINGULARITY_LABELS: Record<Exclude<CmgSingularityKind, 'none'>, string> = {
+  internal: 'Internal singularity: no torque about the red axis. Turn the gimbals another way to get out of it.',
+  saturation: 'Saturated: the momentum is on the envelope and no more can be stored along the red axis.',
+};
+
+const formatDegrees = (radians: number) => `${((radians * 180) / Math.PI).toFixed(2)}°`;
+
+// Error of a predicted rate relative to the simulated one, or a dash while that is zero
+const formatPercentError = (predicted: number, simulated: number) => {
+  if (simulated === 0) return '—';
+  const error = ((predicted - simulated) / Math.abs(simulated)) * 100;
+  return `${error >= 0 ? '+' : ''}${error.toFixed(1)}%`;
+};
+
+// Spin rate a tippe top needs to turn over (RPM)
+const TIPPE_SPIN_RATE = 200;
+
 const Room: React.FC = () => {
   // Create a more realistic concrete/stone floor texture
   const floorTexture = new THREE.TextureLoader().load('data:image/svg+xml;base64,' + btoa(`
@@ -156,167 +172,1292 @@ const Room: React.FC = () => {
 };
 
 const GyroscopeSimulation: React.FC = () => {
-  const [spinRate, setSpinRate] = useState(60);
-  const [spinDirection, setSpinDirection] = useState(1);
-  const [spinAxis, setSpinAxis] = useState<[number, number, number]>([0, 1, 0]);
-  const [gimbalLocked, setGimbalLocked] = useState(false);
-
-  const handleAxisChange = (axis: string) => {
-    switch (axis) {
-      case 'X':
-        setSpinAxis([1, 0, 0]);
-        break;
-      case 'Y':
-        setSpinAxis([0, 1, 0]);
-        break;
-      case 'Z':
-        setSpinAxis([0, 0, 1]);
-        break;
+  const [gyroscopes, setGyroscopes] = useState<SceneGyroscope[]>(() => [createSceneGyroscope(1)]);
+  const [selectedId, setSelectedId] = useState(1);
+  const [telemetry, setTelemetry] = useState<GyroscopeTelemetry | null>(null);
+  const [topTelemetry, setTopTelemetry] = useState<PivotedTopTelemetry | null>(null);
+  const topPrecession = topTelemetry?.precession;
+  const [freeTelemetry, setFreeTelemetry] = useState<FreeBodyTelemetry | null>(null);
+  const [integrator, setIntegrator] = useState<IntegratorId>('rk4');
+  const [mode, setMode] = useState<SimulationMode>('gimbal');
+  const [pivotOffset, setPivotOffset] = useState(0.5);
+  const [initialTilt, setInitialTilt] = useState(30);
+
+  const [freeAxis, setFreeAxis] = useState<PrincipalAxis>('intermediate');
+  const [perturbation, setPerturbation] = useState(0.01);
+  const [showPoinsot, setShowPoinsot] = useState(false);
+  const [latitude, setLatitude] = useState(45);
+  const [earthRateScale, setEarthRateScale] = useState(1000);
+  const [pendulosity, setPendulosity] = useState(12);
+  const [compassDamping, setCompassDamping] = useState(0.1);
+  const [initialHeading, setInitialHeading] = useState(60);
+  const [compassTelemetry, setCompassTelemetry] = useState<GyrocompassTelemetry | null>(null);
+  const [floorPreset, setFloorPreset] = useState<FloorTopPreset>('top');
+  const [tipLength, setTipLength] = useState(0.8);
+  const [floorTilt, setFloorTilt] = useState(5);
+  const [friction, setFriction] = useState(0.3);
+  const [rollingFriction, setRollingFriction] = useState(FLOOR_TOP_PRESETS[0].rollingFriction);
+  const [floorLaunch, setFloorLaunch] = useState(0);
+  const [floorTelemetry, setFloorTelemetry] = useState<FloorTopTelemetry | null>(null);
+  const [cmgCount, setCmgCount] = useState(MAX_CMGS);
+  const [gimbalRates, setGimbalRates] = useState<number[]>(() => new Array<number>(MAX_CMGS).fill(0));
+  const [spacecraftLaunch, setSpacecraftLaunch] = useState(0);
+  const [spacecraftTelemetry, setSpacecraftTelemetry] = useState<SpacecraftTelemetry | null>(null);
+  const [wheelLayout, setWheelLayout] = useState<WheelLayout>('pyramid');
+  const [wheelCount, setWheelCount] = useState(4);
+  const [controller, setController] = useState<AttitudeController>('quaternion');
+  const [bandwidth, setBandwidth] = useState(0.3);
+  const [maxWheelSpeed, setMaxWheelSpeed] = useState(4000);
+  const [targetDraft, setTargetDraft] = useState<Vec3>([90, 30, 0]);
+  const [target, setTarget] = useState<Vec3>([0, 0, 0]);
+  const [wheelsLaunch, setWheelsLaunch] = useState(0);
+  const [wheelTelemetry, setWheelTelemetry] = useState<ReactionWheelTelemetry | null>(null);
+  const [roomRate, setRoomRate] = useState(0);
+  const [frameView, setFrameView] = useState<FrameView>('inertial');
+  const [units, setUnits] = useState<Units>(DEFAULT_UNITS);
+  const [showConservation, setShowConservation] = useState(true);
+
+  // The panel edits the selected gyroscope; the other mountings use its rotor and spin
+  const selected = gyroscopes.find((gyroscope) => gyroscope.id === selectedId) ?? gyroscopes[0];
+  const { spinRate, spinDirection, spinAxis, joints: gimbalJoints, lockDemo, rotor, ringMasses } = selected;
+  const updateSelected = (patch: Partial<SceneGyroscope>) =>
+    setGyroscopes((list) =>
+      list.map((gyroscope) => (gyroscope.id === selected.id ? { ...gyroscope, ...patch } : gyroscope)),
+    );
+  const setSpinRate = (spinRate: number) => updateSelected({ spinRate });
+  const setSpinDirection = (spinDirection: number) => updateSelected({ spinDirection });
+  const setSpinAxis = (spinAxis: Vec3) => updateSelected({ spinAxis });
+  const setGimbalJoints = (joints: GimbalJoints) => updateSelected({ joints });
+  const setLockDemo = (lockDemo: boolean) => updateSelected({ lockDemo });
+  const setRotor = (rotor: RotorProperties) => updateSelected({ rotor });
+  const setRingMasses = (ringMasses: GimbalRingMasses) => updateSelected({ ringMasses });
+
+  // Readings come from the selected gyroscope only
+  const selectGyroscope = (id: number) => {
+    setSelectedId(id);
+    setTelemetry(null);
+  };
+  const removeGyroscope = (id: number) => {
+    const remaining = gyroscopes.filter((gyroscope) => gyroscope.id !== id);
+    setGyroscopes(remaining);
+    if (id === selected.id) {
+      selectGyroscope(remaining[0].id);
     }
   };
 
-  return (
-    <div className="w-full h-screen bg-gray-100 relative">
-      {/* Control Panel */}
-      <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm p-6 rounded-lg shadow-lg z-10 min-w-80">
-        <h2 className="text-xl font-bold mb-4 text-gray-800">Gyroscope Controls</h2>
-        
-        {/* Spin Rate */}
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Spin Rate: {spinRate} RPM
-          </label>
-          <input
-            type="range"
-            min="0"
-            max="300"
-            value={spinRate}
-            onChange={(e) => setSpinRate(Number(e.target.value))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-          />
-        </div>
+  // Each kind of top comes with the rolling resistance that suits it
+  const selectFloorPreset = ({ preset, rollingFriction }: (typeof FLOOR_TOP_PRESETS)[number]) => {
+    setFloorPreset(preset);
+    setRollingFriction(rollingFriction);
+  };
 
-        {/* Spin Direction */}
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Spin Direction
-          </label>
-          <div className="flex space-x-4">
-            <button
-              onClick={() => setSpinDirection(1)}
-              className={`px-4 py-2 rounded ${spinDirection === 1 ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
-            >
-              Clockwise
-            </button>
-            <button
-              onClick={() => setSpinDirection(-1)}
-              className={`px-4 py-2 rounded ${spinDirection === -1 ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
-            >
-              Counter-CW
-            </button>
-          </div>
-        </div>
+  const drift = isIntegrated(mode)
+    ? { gimbal: telemetry?.drift, top: topTelemetry?.drift, free: freeTelemetry?.drift }[mode]
+    : null;
+  const energyMomentum = isIntegrated(mode)
+    ? {
+        gimbal: telemetry?.energyMomentum,
+        top: topTelemetry?.energyMomentum,
+        free: freeTelemetry?.energyMomentum,
+      }[mode]
+    : null;
+  const rings = gimbalRingsForRotor(rotor, ringMasses);
+  const ringOrientations = telemetry && gimbalOrientations(telemetry.angles);
+  // Rings driven by a servo, traced in their own colors
+  const servoRings = (['outer', 'inner'] as const).filter((ring) => gimbalJoints[ring].mode === 'servo');
+  const ringColors = { outer: selected.color, inner: '#B8860B' };
+  const servoTorqueLimit = toDisplay(
+    units,
+    'torque',
+    Math.max(...servoRings.map((ring) => gimbalJoints[ring].servo.maxTorque)),
+  );
+  const maxWheelRate = rateToDisplay(units, fromRpm(maxWheelSpeed));
 
-        {/* Spin Axis */}
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Spin Axis
-          </label>
-          <div className="flex space-x-2">
-            {['X', 'Y', 'Z'].map((axis) => (
+  return (
+    <UnitsContext.Provider value={units}>
+      <div className="w-full h-screen bg-gray-100 relative">
+        {/* Control Panel */}
+        <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm p-6 rounded-lg shadow-lg z-10 min-w-80 max-h-[calc(100vh-2rem)] overflow-y-auto">
+          <h2 className="text-xl font-bold mb-4 text-gray-800">Gyroscope Controls</h2>
+
+          {/* Mounting */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Mounting
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => setMode('gimbal')}
+                className={`px-3 py-2 rounded ${mode === 'gimbal' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                Gimbal Mount
+              </button>
+              <button
+                onClick={() => setMode('top')}
+                className={`px-3 py-2 rounded ${mode === 'top' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                Pivoted Top
+              </button>
               <button
-                key={axis}
-                onClick={() => handleAxisChange(axis)}
-                className={`px-3 py-2 rounded ${
-                  (axis === 'X' && spinAxis[0] === 1) ||
-                  (axis === 'Y' && spinAxis[1] === 1) ||
-                  (axis === 'Z' && spinAxis[2] === 1)
-                    ? 'bg-green-500 text-white'
-                    : 'bg-gray-200 text-gray-700'
-                }`}
+                onClick={() => setMode('free')}
+                className={`px-3 py-2 rounded ${mode === 'free' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
               >
-                {axis}
+                Free Body
               </button>
-            ))}
+              <button
+                onClick={() => setMode('compass')}
+                className={`px-3 py-2 rounded ${mode === 'compass' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                Gyrocompass
+              </button>
+              <button
+                onClick={() => setMode('floor')}
+                className={`px-3 py-2 rounded ${mode === 'floor' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                Floor Top
+              </button>
+              <button
+                onClick={() => setMode('spacecraft')}
+                className={`px-3 py-2 rounded ${mode === 'spacecraft' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                Spacecraft CMG
+              </button>
+              <button
+                onClick={() => setMode('wheels')}
+                className={`px-3 py-2 rounded ${mode === 'wheels' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                Reaction Wheels
+              </button>
+            </div>
           </div>
-        </div>
 
-        {/* Gimbal Lock */}
-        <div className="mb-4">
-          <label className="flex items-center space-x-2">
-            <input
-              type="checkbox"
-              checked={gimbalLocked}
-              onChange={(e) => setGimbalLocked(e.target.checked)}
-              className="rounded"
-            />
-            <span className="text-sm font-medium text-gray-700">Lock Gimbal Rings</span>
-          </label>
-        </div>
+          {/* Units */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Units
+            </label>
+            <div className="flex space-x-2 mb-2">
+              {RATE_UNITS.map(({ unit, label }) => (
+                <button
+                  key={unit}
+                  onClick={() => setUnits({ ...units, rate: unit })}
+                  className={`px-3 py-1 rounded text-sm ${
+                    units.rate === unit ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              {UNIT_SYSTEMS.map(({ system, label }) => (
+                <button
+                  key={system}
+                  onClick={() => setUnits({ ...units, system })}
+                  className={`px-3 py-1 rounded text-sm ${
+                    units.system === system ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Gyroscopes */}
+          {mode === 'gimbal' && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Gyroscopes
+              </label>
+              <GyroscopeList
+                gyroscopes={gyroscopes}
+                selected={selected}
+                onSelect={selectGyroscope}
+                onAdd={() => setGyroscopes(addSceneGyroscope(gyroscopes, selected))}
+                onRemove={removeGyroscope}
+                onChange={updateSelected}
+              />
+            </div>
+          )}
+
+          {/* Reaction wheels spin up from rest on their own */}
+          {mode !== 'wheels' && (
+            <>
+              {/* Spin Rate */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Spin Rate: {formatRate(units, fromRpm(spinRate))}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="300"
+                  value={spinRate}
+                  onChange={(e) => setSpinRate(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Spin Direction */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Spin Direction
+                </label>
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => setSpinDirection(1)}
+                    className={`px-4 py-2 rounded ${spinDirection === 1 ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+                  >
+                    Clockwise
+                  </button>
+                  <button
+                    onClick={() => setSpinDirection(-1)}
+                    className={`px-4 py-2 rounded ${spinDirection === -1 ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+                  >
+                    Counter-CW
+                  </button>
+                </div>
+              </div>
+
+              {/* Rotor (a tippe top has its own build) */}
+              {!(mode === 'floor' && floorPreset === 'tippe') && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Rotor
+                  </label>
+                  <RotorPropertiesControl rotor={rotor} onChange={setRotor} />
+                  {mode === 'floor' && rotor.shape !== 'disk' && (
+                    <p className="mt-2 text-xs text-gray-600">The spinning top is always a disk of this size and mass.</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {mode === 'gimbal' && (
+            <>
+              {/* Spin Axis */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Spin Axis
+                </label>
+                <SpinAxisPicker value={spinAxis} onChange={setSpinAxis} />
+              </div>
+
+              {/* Gimbal Joints */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Gimbal Joints
+                </label>
+                <GimbalJointControl
+                  label="Outer Ring"
+                  joint={gimbalJoints.outer}
+                  onChange={(outer) => setGimbalJoints({ ...gimbalJoints, outer })}
+                />
+                <GimbalJointControl
+                  label="Inner Ring"
+                  joint={gimbalJoints.inner}
+                  onChange={(inner) => setGimbalJoints({ ...gimbalJoints, inner })}
+                />
+                {telemetry && (gimbalJoints.outer.mode !== 'free' || gimbalJoints.inner.mode !== 'free') && (
+                  <div className="text-xs text-gray-600">
+                    {(['outer', 'inner'] as const).map((ring) => (
+                      <p key={ring}>
+                        {gimbalJoints[ring].mode === 'servo' ? 'Motor' : 'Bearing'} torque ({ring}):{' '}
+                        {formatQuantity(units, 'torque', telemetry.reaction[ring], 2)}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {telemetry && servoRings.length > 0 && (
+                  <>
+                    <TracePlot
+                      times={telemetry.trace.map(({ time }) => time)}
+                      series={servoRings.map((ring) => ({
+                        label: ring === 'outer' ? 'Outer' : 'Inner',
+                        color: ringColors[ring],
+                        values: telemetry.trace.map((sample) => (wrapAngle(sample[ring]) * 180) / Math.PI),
+                      }))}
+                      min={-180}
+                      max={180}
+                      unit="°"
+                      guides={servoRings.map((ring) => (gimbalJoints[ring].servo.target * 180) / Math.PI)}
+                    />
+                    <TracePlot
+                      times={telemetry.trace.map(({ time }) => time)}
+                      series={servoRings.map((ring) => ({
+                        label: ring === 'outer' ? 'Outer' : 'Inner',
+                        color: ringColors[ring],
+                        values: telemetry.trace.map(({ reaction }) => toDisplay(units, 'torque', reaction[ring])),
+                      }))}
+                      min={-servoTorqueLimit}
+                      max={servoTorqueLimit}
+                      unit={unitSymbol(units, 'torque')}
+                      guides={[0]}
+                    />
+                    <p className="mt-2 text-xs text-gray-600">
+                      Dashed lines mark the targets. With the rotor spinning, a torque on one ring mostly
+                      precesses the other, so each servo has to work against the other's axis.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              {/* Ring Masses */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Ring Masses
+                </label>
+                {(['outer', 'inner'] as const).map((ring) => (
+                  <div key={ring} className="mb-3">
+                    <label className="block text-xs text-gray-600 mb-1">
+                      {ring === 'outer' ? 'Outer' : 'Inner'} Ring: {formatQuantity(units, 'mass', ringMasses[ring], 1)}{' '}
+                      (
+                      {formatQuantity(units, 'inertia', ringInertia(rings[ring]).diametral, 3)} about its pivot)
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="5"
+                      step="0.1"
+                      value={ringMasses[ring]}
+                      onChange={(e) => setRingMasses({ ...ringMasses, [ring]: Number(e.target.value) })}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {/* Gimbal Lock Demo */}
+              <div className="mb-4">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={lockDemo}
+                    onChange={(e) => setLockDemo(e.target.checked)}
+                    className="rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Drive Into Gimbal Lock</span>
+                </label>
+              </div>
+
+              {telemetry && <GimbalLockWarning angles={telemetry.angles} singularity={telemetry.singularity} />}
+
+              {/* Orientation */}
+              {ringOrientations && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Orientation
+                  </label>
+                  <OrientationInspector
+                    bodies={[
+                      { label: 'Rotor', orientation: ringOrientations.rotor },
+                      { label: 'Inner Ring', orientation: ringOrientations.innerRing },
+                      { label: 'Outer Ring', orientation: ringOrientations.outerRing },
+                    ]}
+                    reference="the stand"
+                    defaultSequence="XZY"
+                  />
+                  <p className="mt-2 text-xs text-gray-600">
+                    The rings themselves turn the rotor through the {GIMBAL_EULER_SEQUENCE} sequence: outer ring,
+                    inner ring, then spin.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {mode === 'top' && (
+            <>
+              {/* Pivot Offset */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pivot Offset: {formatQuantity(units, 'length', pivotOffset, 2)}
+                </label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="1.5"
+                  step="0.05"
+                  value={pivotOffset}
+                  onChange={(e) => setPivotOffset(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Initial Tilt */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Initial Tilt: {initialTilt}°
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="85"
+                  value={initialTilt}
+                  onChange={(e) => setInitialTilt(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Precession Rate */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Precession Rate
+                </label>
+                <div className="text-xs text-gray-600">
+                  {topPrecession?.steady ? (
+                    <>
+                      <p>
+                        Simulated: {formatRate(units, topPrecession.rate)} at a mean tilt of{' '}
+                        {formatDegrees(topPrecession.tilt)}
+                      </p>
+                      <p>
+                        mgr / Iω: {formatRate(units, topPrecession.steady.approximate)} (
+                        {formatPercentError(topPrecession.steady.approximate, topPrecession.rate)})
+                      </p>
+                      {topPrecession.steady.slow !== null ? (
+                        <p>
+                          Exact slow root: {formatRate(units, topPrecession.steady.slow)} (
+                          {formatPercentError(topPrecession.steady.slow, topPrecession.rate)})
+                        </p>
+                      ) : (
+                        <p>No steady precession: the top spins too slowly for this tilt.</p>
+                      )}
+                      {topPrecession.steady.fast !== null && (
+                        <p>Exact fast root: {formatRate(units, topPrecession.steady.fast)}</p>
+                      )}
+                      <p className="mt-2">
+                        {topPrecession.steady.symmetric
+                          ? 'Released from rest, the top nutates about the slow root; the rate is averaged since release, the last push or the last change of spin.'
+                          : 'The formula assumes a symmetric top, with equal moments across the axle; pick the disk to compare.'}
+                      </p>
+                    </>
+                  ) : topPrecession ? (
+                    <p>Without spin the top swings under its weight rather than precessing.</p>
+                  ) : (
+                    <p>Measured once the top has run undisturbed and off the vertical for a few seconds.</p>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          {mode === 'free' && (
+            <>
+              {/* Spin About */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Spin About Principal Axis
+                </label>
+                <div className="flex space-x-2">
+                  {PRINCIPAL_AXES.map(({ axis, label }) => (
+                    <button
+                      key={axis}
+                      onClick={() => setFreeAxis(axis)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        freeAxis === axis ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {rotor.shape === 'disk' && (
+                  <p className="mt-2 text-xs text-gray-600">
+                    A disk has two equal moments; pick the block or the T-handle to see the flip.
+                  </p>
+                )}
+              </div>
+
+              {/* Perturbation */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Perturbation: {(perturbation * 100).toFixed(1)}%
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.1"
+                  step="0.001"
+                  value={perturbation}
+                  onChange={(e) => setPerturbation(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Poinsot Construction */}
+              <div className="mb-4">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={showPoinsot}
+                    onChange={(e) => setShowPoinsot(e.target.checked)}
+                    className="rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Poinsot Construction</span>
+                </label>
+                {showPoinsot && (
+                  <p className="mt-2 text-xs text-gray-600">
+                    The inertia ellipsoid rolls on the invariable plane, square to the angular momentum.
+                    The point of contact is the angular velocity: it traces the{' '}
+                    <span className="text-amber-500">polhode</span> on the ellipsoid and the{' '}
+                    <span className="text-pink-500">herpolhode</span> on the plane.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {mode === 'compass' && (
+            <>
+              {/* Latitude */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Latitude: {Math.abs(latitude)}° {latitude >= 0 ? 'N' : 'S'}
+                </label>
+                <input
+                  type="range"
+                  min="-85"
+                  max="85"
+                  value={latitude}
+                  onChange={(e) => setLatitude(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Earth Rate */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Earth Rate
+                </label>
+                <div className="flex space-x-2">
+                  {EARTH_RATE_SCALES.map((scale) => (
+                    <button
+                      key={scale}
+                      onClick={() => setEarthRateScale(scale)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        earthRateScale === scale ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {scale === 1 ? 'Real' : `×${scale}`}
+                    </button>
+                  ))}
+                </div>
+                {earthRateScale === 1 && (
+                  <p className="mt-2 text-xs text-gray-600">At the real rate the compass takes hours to settle.</p>
+                )}
+              </div>
+
+              {/* Pendulosity */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pendulosity: {formatQuantity(units, 'torque', pendulosity, 1)}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="50"
+                  step="0.5"
+                  value={pendulosity}
+                  onChange={(e) => setPendulosity(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Damping */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Damping: {(compassDamping * 100).toFixed(0)}% of pendulous torque
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.5"
+                  step="0.01"
+                  value={compassDamping}
+                  onChange={(e) => setCompassDamping(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Initial Heading */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Initial Heading: {initialHeading}°
+                </label>
+                <input
+                  type="range"
+                  min="-170"
+                  max="170"
+                  step="5"
+                  value={initialHeading}
+                  onChange={(e) => setInitialHeading(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
 
-        {/* Status Display */}
-        <div className="text-xs text-gray-600 border-t pt-3">
-          <p>Current Axis: [{spinAxis.join(', ')}]</p>
-          <p>Angular Velocity: {(spinRate * 6).toFixed(1)}°/s</p>
+              {/* Settling */}
+              {compassTelemetry && (
+                <div className="mb-4 text-xs text-gray-600">
+                  <p>
+                    Heading: {formatDegrees(compassTelemetry.heading)}, tilt: {formatDegrees(compassTelemetry.tilt)}
+                  </p>
+                  {compassTelemetry.equilibrium && !compassTelemetry.circling ? (
+                    <>
+                      <p>
+                        Settling time (within {formatDegrees(SETTLE_TOLERANCE)}):{' '}
+                        {compassTelemetry.settledAt !== null
+                          ? `${compassTelemetry.settledAt.toFixed(1)} s`
+                          : `settling… (${compassTelemetry.time.toFixed(0)} s since release)`}
+                      </p>
+                      <p>
+                        Latitude error: {formatDegrees(Math.abs(compassTelemetry.equilibrium.heading))}{' '}
+                        {compassTelemetry.equilibrium.heading >= 0 ? 'east' : 'west'} of true north
+                      </p>
+                    </>
+                  ) : (
+                    <p>
+                      No settled heading:{' '}
+                      {compassTelemetry.equilibrium
+                        ? 'released here, the axle keeps circling. Release it closer to north, or slow the Earth rate.'
+                        : 'this close to the pole, at this Earth rate, the compass has nowhere it can settle.'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {mode === 'floor' && (
+            <>
+              {/* Top */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Top
+                </label>
+                <div className="flex space-x-2">
+                  {FLOOR_TOP_PRESETS.map((option) => (
+                    <button
+                      key={option.preset}
+                      onClick={() => selectFloorPreset(option)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        floorPreset === option.preset ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setFloorLaunch(floorLaunch + 1)}
+                    className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700"
+                  >
+                    Spin Again
+                  </button>
+                </div>
+                {floorPreset === 'tippe' && (
+                  <p className="mt-2 text-xs text-gray-600">
+                    Spun at {formatRate(units, fromRpm(TIPPE_SPIN_RATE))} or more on its ball, it turns over onto its
+                    stem.
+                  </p>
+                )}
+              </div>
+
+              {/* Tip Length */}
+              {floorPreset === 'top' && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tip Length: {formatQuantity(units, 'length', tipLength, 2)}
+                  </label>
+                  <input
+                    type="range"
+                    min="0.4"
+                    max="1.2"
+                    step="0.05"
+                    value={tipLength}
+                    onChange={(e) => setTipLength(Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              )}
+
+              {/* Initial Tilt */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Initial Tilt: {floorTilt}°
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="30"
+                  value={floorTilt}
+                  onChange={(e) => setFloorTilt(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Friction */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Floor Friction
+                </label>
+                <label className="block text-xs text-gray-600 mb-1">Sliding: μ = {friction.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={friction}
+                  onChange={(e) => setFriction(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+                <label className="block text-xs text-gray-600 mt-2 mb-1">
+                  Rolling: {formatQuantity(units, 'smallLength', rollingFriction, 1)}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.05"
+                  step="0.0005"
+                  value={rollingFriction}
+                  onChange={(e) => setRollingFriction(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+                {floorTelemetry && (
+                  <div className="mt-2 text-xs text-gray-600">
+                    <p>
+                      Tilt: {formatDegrees(floorTelemetry.tilt)}, spin:{' '}
+                      {formatRate(units, Math.abs(floorTelemetry.spin))}
+                    </p>
+                    <p>
+                      Normal force: {formatQuantity(units, 'force', floorTelemetry.normalForce, 1)}, slip:{' '}
+                      {formatQuantity(units, 'speed', floorTelemetry.slip, 3)}
+                    </p>
+                    <p>The top is {STANCE_LABELS[floorTelemetry.stance]}.</p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {mode === 'spacecraft' && (
+            <>
+              {/* CMGs */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Control Moment Gyroscopes
+                </label>
+                <div className="flex space-x-2">
+                  {Array.from({ length: MAX_CMGS }, (_, i) => i + 1).map((count) => (
+                    <button
+                      key={count}
+                      onClick={() => setCmgCount(count)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        cmgCount === count ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-600">
+                  Each wheel is the rotor above at the spin rate, gimballed on a side of a pyramid.
+                </p>
+                {cmgCount < 3 && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    Fewer than three CMGs cannot give 3-axis control: they only turn the spacecraft about the directions
+                    their torques span, and the singularity measure only counts those.
+                  </p>
+                )}
+              </div>
+
+              {/* Gimbal Rates */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Gimbal Rates
+                </label>
+                {gimbalRates.slice(0, cmgCount).map((rate, i) => (
+                  <div key={i} className="mb-2">
+                    <label className="block text-xs text-gray-600 mb-1">
+                      CMG {i + 1}: {formatRate(units, (rate * Math.PI) / 180)}
+                      {spacecraftTelemetry && ` (at ${formatDegrees(wrapAngle(spacecraftTelemetry.angles[i] ?? 0))})`}
+                    </label>
+                    <input
+                      type="range"
+                      min="-60"
+                      max="60"
+                      value={rate}
+                      onChange={(e) =>
+                        setGimbalRates(gimbalRates.map((value, j) => (j === i ? Number(e.target.value) : value)))
+                      }
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                ))}
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setGimbalRates(gimbalRates.map(() => 0))}
+                    className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700"
+                  >
+                    Stop Gimbals
+                  </button>
+                  <button
+                    onClick={() => setSpacecraftLaunch(spacecraftLaunch + 1)}
+                    className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700"
+                  >
+                    Reset Spacecraft
+                  </button>
+                </div>
+                {spacecraftTelemetry && (
+                  <div className="mt-2 text-xs text-gray-600">
+                    <p>
+                      Slewed: {formatDegrees(spacecraftTelemetry.slew)}, rate:{' '}
+                      {formatRate(units, spacecraftTelemetry.rate)}
+                    </p>
+                    <p>
+                      CMG momentum: {toDisplay(units, 'momentum', spacecraftTelemetry.storedMomentum).toFixed(2)}{' '}
+                      of{' '}
+                      {formatQuantity(units, 'momentum', spacecraftTelemetry.envelopeMomentum, 2)} this way
+                    </p>
+                    <p>Singularity measure: {spacecraftTelemetry.singularity.measure.toFixed(3)}</p>
+                    {spacecraftTelemetry.singularity.kind !== 'none' && (
+                      <p className="text-red-600">{SINGULARITY_LABELS[spacecraftTelemetry.singularity.kind]}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {mode === 'wheels' && (
+            <>
+              {/* Wheels */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reaction Wheels
+                </label>
+                <div className="flex space-x-2 mb-2">
+                  {[3, 4].map((count) => (
+                    <button
+                      key={count}
+                      onClick={() => setWheelCount(count)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        wheelCount === count ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {count} Wheels
+                    </button>
+                  ))}
+                </div>
+                <div className="flex space-x-2">
+                  {WHEEL_LAYOUTS.map(({ layout, label }) => (
+                    <button
+                      key={layout}
+                      onClick={() => setWheelLayout(layout)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        wheelLayout === layout ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <label className="block text-xs text-gray-600 mt-2 mb-1">
+                  Speed Limit: {formatRate(units, fromRpm(maxWheelSpeed))}
+                </label>
+                <input
+                  type="range"
+                  min="500"
+                  max="6000"
+                  step="100"
+                  value={maxWheelSpeed}
+                  onChange={(e) => setMaxWheelSpeed(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Controller */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Controller
+                </label>
+                <div className="flex space-x-2">
+                  {ATTITUDE_CONTROLLERS.map((option) => (
+                    <button
+                      key={option.controller}
+                      onClick={() => setController(option.controller)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        controller === option.controller ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <label className="block text-xs text-gray-600 mt-2 mb-1">
+                  Bandwidth: {formatRate(units, bandwidth)}
+                </label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="1"
+                  step="0.05"
+                  value={bandwidth}
+                  onChange={(e) => setBandwidth(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
+              {/* Target Attitude */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Target Attitude
+                </label>
+                {(['Yaw (about Y)', 'Pitch (about Z)', 'Roll (about X)'] as const).map((label, i) => (
+                  <div key={label} className="mb-2">
+                    <label className="block text-xs text-gray-600 mb-1">
+                      {label}: {targetDraft[i]}°
+                    </label>
+                    <input
+                      type="range"
+                      min={i === 1 ? -90 : -180}
+                      max={i === 1 ? 90 : 180}
+                      step="5"
+                      value={targetDraft[i]}
+                      onChange={(e) => {
+                        const draft = [...targetDraft] as Vec3;
+                        draft[i] = Number(e.target.value);
+                        setTargetDraft(draft);
+                      }}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                ))}
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setTarget(targetDraft)}
+                    className="px-3 py-1 rounded text-sm bg-blue-500 text-white"
+                  >
+                    Send Target
+                  </button>
+                  <button
+                    onClick={() => setWheelsLaunch(wheelsLaunch + 1)}
+                    className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700"
+                  >
+                    Reset Spacecraft
+                  </button>
+                </div>
+                {wheelTelemetry && wheelTelemetry.trace.length > 0 && (
+                  <div className="mt-2 text-xs text-gray-600">
+                    <p>
+                      Attitude error: {formatDegrees(wheelTelemetry.trace[wheelTelemetry.trace.length - 1].error)}, rate:{' '}
+                      {formatRate(units, wheelTelemetry.rate)}
+                    </p>
+                    <TracePlot
+                      times={wheelTelemetry.trace.map(({ time }) => time)}
+                      series={[
+                        {
+                          label: 'Error',
+                          color: '#6B7280',
+                          values: wheelTelemetry.trace.map(({ error }) => (error * 180) / Math.PI),
+                        },
+                      ]}
+                      min={0}
+                      max={180}
+                      unit="°"
+                    />
+                    <TracePlot
+                      times={wheelTelemetry.trace.map(({ time }) => time)}
+                      series={Array.from({ length: wheelCount }, (_, i) => ({
+                        label: `Wheel ${i + 1}`,
+                        color: WHEEL_COLORS[i],
+                        values: wheelTelemetry.trace.map(({ speeds }) => rateToDisplay(units, speeds[i] ?? 0)),
+                      }))}
+                      min={-maxWheelRate}
+                      max={maxWheelRate}
+                      unit={rateSymbol(units)}
+                      guides={[0]}
+                    />
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Rotating Room */}
+          {mode !== 'compass' && !isInSpace(mode) && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Room Rotation: {formatRate(units, fromRpm(roomRate))}
+              </label>
+              <input
+                type="range"
+                min="-10"
+                max="10"
+                step="0.5"
+                value={roomRate}
+                onChange={(e) => setRoomRate(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+              <label className="block text-xs text-gray-600 mt-2 mb-1">View From</label>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setFrameView('inertial')}
+                  className={`px-3 py-1 rounded text-sm ${frameView === 'inertial' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+                >
+                  Inertial Frame
+                </button>
+                <button
+                  onClick={() => setFrameView('room')}
+                  className={`px-3 py-1 rounded text-sm ${frameView === 'room' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+                >
+                  Room Frame
+                </button>
+              </div>
+              {frameView === 'room' && roomRate !== 0 && (
+                <p className="mt-2 text-xs text-gray-600">
+                  <span className="text-orange-500">Centrifugal</span> and{' '}
+                  <span className="text-purple-500">Coriolis</span> forces per unit mass act on the marked points.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Integrator */}
+          {isIntegrated(mode) && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Integrator
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {INTEGRATORS.map(({ id, label, description }) => (
+                  <button
+                    key={id}
+                    title={description}
+                    onClick={() => setIntegrator(id)}
+                    className={`px-3 py-1 rounded text-sm ${
+                      integrator === id ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-gray-600">
+                {drift ? (
+                  <>
+                    <p>{DRIFT_LABELS[mode].energy} drift: {formatDrift(drift.energy)}</p>
+                    <p>
+                      {DRIFT_LABELS[mode].momentum} drift: {formatDrift(drift.angularMomentum)}
+                    </p>
+                    {mode === 'gimbal' && telemetry?.coupling && (
+                      <p className="mt-1">
+                        Ring coupling, whichever integrator: {formatDrift(telemetry.coupling.energy)} energy,{' '}
+                        {formatDrift(telemetry.coupling.angularMomentum)} momentum
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p>Drift is measured while nothing holds, drives or pushes the body.</p>
+                )}
+              </div>
+              <label className="flex items-center space-x-2 mt-2">
+                <input
+                  type="checkbox"
+                  checked={showConservation}
+                  onChange={(e) => setShowConservation(e.target.checked)}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Show Conservation HUD</span>
+              </label>
+            </div>
+          )}
+
+          {/* Status Display */}
+          <div className="text-xs text-gray-600 border-t pt-3">
+            <p className="mb-1">{DRAG_HINTS[mode]}</p>
+            <p>Current Axis: [{spinAxis.map((component) => component.toFixed(3)).join(', ')}]</p>
+            <p>Angular Velocity: {formatRate(units, fromRpm(spinRate))}</p>
+            {mode === 'gimbal' && telemetry && (
+              <p>
+                Gimbal Angles: outer {((wrapAngle(telemetry.angles.outer) * 180) / Math.PI).toFixed(1)}°, inner{' '}
+                {((telemetry.angles.inner * 180) / Math.PI).toFixed(1)}°
+              </p>
+            )}
+            {mode === 'free' && freeTelemetry && (
+              <p>
+                Spin axis vs. momentum: {freeTelemetry.alignment.toFixed(3)}, flips: {freeTelemetry.flips}
+              </p>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* 3D Scene */}
-      <Canvas
-        camera={{ position: [5, 3, 5], fov: 60 }}
-        shadows
-        className="w-full h-full"
-      >
-        {/* Improved lighting setup to prevent bleeding */}
-        <ambientLight intensity={0.4} />
-        <directionalLight
-          position={[8, 8, 3]}
-          intensity={1.0}
-          castShadow
-          shadow-mapSize-width={2048}
-          shadow-mapSize-height={2048}
-          shadow-camera-far={25}
-          shadow-camera-left={-10}
-          shadow-camera-right={10}
-          shadow-camera-top={10}
-          shadow-camera-bottom={-10}
-          shadow-bias={-0.0001}
-        />
-        <spotLight 
-          position={[5, 8, 5]} 
-          intensity={0.3} 
-          castShadow 
-          angle={Math.PI / 6}
-          penumbra={0.3}
-          decay={2}
-          distance={20}
-        />
+        {/* Conservation HUD */}
+        {showConservation && isIntegrated(mode) && energyMomentum && (
+          <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm p-4 rounded-lg shadow-lg z-10 w-72">
+            <ConservationHud
+              key={mode}
+              sample={energyMomentum}
+              drift={drift ?? null}
+              coupling={mode === 'gimbal' ? telemetry?.coupling : null}
+              conserved={DRIFT_LABELS[mode]}
+            />
+          </div>
+        )}
 
-        {/* Environment */}
-        <Room />
-        
-        {/* Gyroscope */}
-        <Gyroscope
-          spinRate={spinRate}
-          spinDirection={spinDirection}
-          spinAxis={spinAxis}
-          gimbalLocked={gimbalLocked}
-        />
+        {/* 3D Scene */}
+        <Canvas
+          camera={{ position: [5, 3, 5], fov: 60 }}
+          shadows
+          className="w-full h-full"
+        >
+          {/* Improved lighting setup to prevent bleeding */}
+          <ambientLight intensity={0.4} />
+          <directionalLight
+            position={[8, 8, 3]}
+            intensity={1.0}
+            castShadow
+            shadow-mapSize-width={2048}
+            shadow-mapSize-height={2048}
+            shadow-camera-far={25}
+            shadow-camera-left={-10}
+            shadow-camera-right={10}
+            shadow-camera-top={10}
+            shadow-camera-bottom={-10}
+            shadow-bias={-0.0001}
+          />
+          <spotLight 
+            position={[5, 8, 5]} 
+            intensity={0.3} 
+            castShadow 
+            angle={Math.PI / 6}
+            penumbra={0.3}
+            decay={2}
+            distance={20}
+          />
 
-        {/* Controls */}
-        <OrbitControls
-          enablePan={true}
-          enableZoom={true}
-          enableRotate={true}
-          minDistance={3}
-          maxDistance={15}
-          target={[0, 0, 0]}
-        />
+          {/* Environment turns with the room; the gyroscope is drawn from the chosen frame. The
+              gyrocompass's room turns with the Earth, which its physics accounts for, and the
+              spacecraft has no room at all. */}
+          {mode === 'compass' ? (
+            <>
+              <Room />
+              <Gyrocompass
+                spinRate={spinRate}
+                rotor={rotor}
+                latitude={latitude}
+                earthRateScale={earthRateScale}
+                pendulosity={pendulosity}
+                damping={compassDamping}
+                initialHeading={initialHeading}
+                onTelemetry={setCompassTelemetry}
+              />
+            </>
+          ) : isInSpace(mode) ? (
+            <>
+              <color attach="background" args={['#050816']} />
+              <Stars radius={60} depth={40} count={3000} factor={4} fade />
+              {mode === 'spacecraft' ? (
+                <Spacecraft
+                  spinRate={spinRate}
+                  spinDirection={spinDirection}
+                  rotor={rotor}
+                  count={cmgCount}
+                  gimbalRates={gimbalRates}
+                  launch={spacecraftLaunch}
+                  onTelemetry={setSpacecraftTelemetry}
+                />
+              ) : (
+                <ReactionWheelSpacecraft
+                  layout={wheelLayout}
+                  count={wheelCount}
+                  controller={controller}
+                  bandwidth={bandwidth}
+                  maxSpeed={maxWheelSpeed}
+                  target={target}
+                  launch={wheelsLaunch}
+                  onTelemetry={setWheelTelemetry}
+                />
+              )}
+            </>
+          ) : (
+            <RoomFrame rate={fromRpm(roomRate)} view={frameView} room={<Room />}>
+              {mode === 'gimbal' ? (
+                <>
+                  {gyroscopes.map((gyroscope) => (
+                    <Gyroscope
+                      key={gyroscope.id}
+                      spinRate={gyroscope.spinRate}
+                      spinDirection={gyroscope.spinDirection}
+                      spinAxis={gyroscope.spinAxis}
+                      joints={gyroscope.joints}
+                      lockDemo={gyroscope.lockDemo}
+                      integrator={integrator}
+                      rotor={gyroscope.rotor}
+                      ringMasses={gyroscope.ringMasses}
+                      position={gyroscope.position}
+                      color={gyroscope.color}
+                      selected={gyroscopes.length > 1 && gyroscope.id === selected.id}
+                      onSelect={() => selectGyroscope(gyroscope.id)}
+                      onTelemetry={gyroscope.id === selected.id ? setTelemetry : undefined}
+                    />
+                  ))}
+                </>
+              ) : mode === 'floor' ? (
+                <FloorTop
+                  preset={floorPreset}
+                  spinRate={spinRate}
+                  spinDirection={spinDirection}
+                  rotor={rotor}
+                  tipLength={tipLength}
+                  initialTilt={floorTilt}
+                  friction={friction}
+                  rollingFriction={rollingFriction}
+                  launch={floorLaunch}
+                  onTelemetry={setFloorTelemetry}
+                />
+              ) : mode === 'top' ? (
+                <PivotedTop
+                  spinRate={spinRate}
+                  spinDirection={spinDirection}
+                  rotor={rotor}
+                  pivotOffset={pivotOffset}
+                  initialTilt={initialTilt}
+                  integrator={integrator}
+                  onTelemetry={setTopTelemetry}
+                />
+              ) : (
+                <FreeBody
+                  spinRate={spinRate}
+                  spinDirection={spinDirection}
+                  rotor={rotor}
+                  axis={freeAxis}
+                  perturbation={perturbation}
+                  integrator={integrator}
+                  poinsot={showPoinsot}
+                  onTelemetry={setFreeTelemetry}
+                />
+              )}
+            </RoomFrame>
+          )}
 
-        {/* Environment mapping for reflections */}
-        <Environment preset="studio" />
-      </Canvas>
-    </div>
+          {/* Controls */}
+          <OrbitControls
+            makeDefault
+            enablePan={true}
+            enableZoom={true}
+            enableRotate={true}
+            minDistance={3}
+            maxDistance={15}
+            target={[0, 0, 0]}
+          />
+
+          {/* Environment mapping for reflections */}
+          <Environment preset="studio" />
+        </Canvas>
+      </div>
+    </UnitsContext.Provider>
   );
 };
 
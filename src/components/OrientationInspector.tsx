@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import {
+  EULER_SEQUENCES,
+  EulerSequence,
+  Quat,
+  axisAngleFromQuat,
+  eulerAnglesFromQuat,
+  mat3FromQuat,
+} from '@/lib/physics/math';
+
+export interface InspectedBody {
+  label: string;
+  orientation: Quat;
+}
+
+interface OrientationInspectorProps {
+  bodies: InspectedBody[];
+  // What the orientations are measured from, e.g. "the stand"
+  reference: string;
+  // Sequence shown first, e.g. the one the mount's own angles follow
+  defaultSequence?: EulerSequence;
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Fixed width with room for the sign, so the columns line up
+const formatNumber = (value: number, digits = 4) => {
+  const text = value.toFixed(digits);
+  return text.startsWith('-') ? text : ` ${text}`;
+};
+
+const formatList = (values: number[], digits?: number) =>
+  `[${values.map((value) => formatNumber(value, digits)).join(', ')}]`;
+
+// Orientation of one body as a quaternion, rotation matrix, axis and angle, and Euler angles
+// in a chosen sequence, as plain text that can be selected or copied
+const OrientationInspector: React.FC<OrientationInspectorProps> = ({ bodies, reference, defaultSequence = 'XYZ' }) => {
+  const [selected, setSelected] = useState(0);
+  const [sequence, setSequence] = useState<EulerSequence>(defaultSequence);
+  const [copied, setCopied] = useState(false);
+
+  const body = bodies[Math.min(selected, bodies.length - 1)];
+  const q = body.orientation;
+  const m = mat3FromQuat(q);
+  const { axis, angle } = axisAngleFromQuat(q);
+  const euler = eulerAnglesFromQuat(q, sequence);
+  const lines = [
+    `Quaternion [x, y, z, w]: ${formatList(q)}`,
+    'Rotation matrix:',
+    ...[0, 1, 2].map((row) => `  ${formatList(m.slice(3 * row, 3 * row + 3))}`),
+    `Axis: ${formatList(axis)}, angle: ${formatNumber(toDegrees(angle), 2)}°`,
+    `Euler ${sequence}: ${formatList(euler.map(toDegrees), 2)}°`,
+  ];
+
+  const copy = () => {
+    const text = [`${body.label} relative to ${reference}`, ...lines].join('\n');
+    navigator.clipboard.writeText(text).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
+
+  return (
+    <div>
+      {bodies.length > 1 && (
+        <div className="flex space-x-2 mb-2">
+          {bodies.map(({ label }, i) => (
+            <button
+              key={label}
+              onClick={() => setSelected(i)}
+              className={`px-3 py-1 rounded text-sm ${
+                body.label === label ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <span className="block text-xs text-gray-600 mb-1">Euler Sequence</span>
+      <div className="grid grid-cols-6 gap-1 mb-2">
+        {EULER_SEQUENCES.map((option) => (
+          <button
+            key={option}
+            onClick={() => setSequence(option)}
+            className={`px-1 py-1 rounded text-xs ${
+              sequence === option ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <pre className="p-2 bg-gray-50 rounded text-xs font-mono text-gray-700 overflow-x-auto select-all">
+        {lines.join('\n')}
+      </pre>
+      <div className="mt-2 flex items-center justify-between">
+        <span className="text-xs text-gray-600">Relative to {reference}</span>
+        <button onClick={copy} className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700">
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OrientationInspector;
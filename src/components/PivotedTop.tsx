@@ -0,0 +1,140 @@
+import React, { useMemo, useRef } from 'react';
+import { Group } from 'three';
+import { Vec3, length, quatSlerp, sub } from '@/lib/physics/math';
+import { worldAngularVelocity } from '@/lib/physics/rigid-body';
+import { IntegratorId } from '@/lib/physics/integrators';
+import { Drift, EnergyMomentum } from '@/lib/physics/diagnostics';
+import { createPivotedTop, SteadyPrecession, steadyPrecession, topEnergyMomentum } from '@/lib/physics/pivoted-top';
+import { RotorProperties } from '@/lib/physics/rotor';
+import { formatQuantity, fromRpm } from '@/lib/units';
+import { useDragTorque } from '@/hooks/use-drag-torque';
+import { useUnits } from '@/hooks/use-units';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import FictitiousForces, { BodyPose } from './FictitiousForces';
+import Rotor from './Rotor';
+import VectorDisplay from './VectorDisplay';
+
+const PIVOT_HEIGHT = 2.2;
+const PIVOT: Vec3 = [0, PIVOT_HEIGHT, 0];
+// How often the control panel is sent fresh readings (s)
+const TELEMETRY_INTERVAL = 0.1;
+
+interface PivotedTopProps {
+  spinRate: number;
+  spinDirection: number;
+  rotor: RotorProperties;
+  pivotOffset: number;
+  // Initial angle between the axle and the vertical (degrees)
+  initialTilt: number;
+  integrator: IntegratorId;
+  onTelemetry?: (telemetry: PivotedTopTelemetry) => void;
+}
+
+export interface PivotedTopTelemetry {
+  // Drift of the total energy and the vertical angular momentum since release
+  drift: Drift;
+  energyMomentum: EnergyMomentum;
+  // Mean precession rate and tilt since the motion last changed, once long enough to read,
+  // and the steady precession the textbook formula predicts at that tilt and spin
+  precession: { rate: number; tilt: number; steady: SteadyPrecession | null } | null;
+}
+
+const PivotedTop: React.FC<PivotedTopProps> = ({
+  spinRate,
+  spinDirection,
+  rotor,
+  pivotOffset,
+  initialTilt,
+  integrator,
+  onTelemetry,
+}) => {
+  const bodyRef = useRef<Group>(null);
+  const poseRef = useRef<BodyPose | null>(null);
+  const top = useMemo(() => createPivotedTop({ ...rotor, pivotOffset }), [rotor, pivotOffset]);
+  const { radius, thickness } = rotor;
+  // Rim points the fictitious forces are drawn at (body frame, from the pivot)
+  const rimMarkers = useMemo<Vec3[]>(
+    () => [
+      [radius, pivotOffset, 0],
+      [-radius, pivotOffset, 0],
+    ],
+    [radius, pivotOffset],
+  );
+  const spin = fromRpm(spinRate * spinDirection);
+  const lastTelemetryRef = useRef(0);
+  // Grabbing the top and dragging pushes on it about the pivot
+  const { drag, handlers } = useDragTorque(PIVOT);
+  const units = useUnits();
+
+  // The top is stepped in the physics worker. Changing the support or the release angle
+  // releases it again from rest; changing the spin rate acts like a motor on the axle.
+  useWorkerSimulation(
+    'pivoted-top',
+    {
+      rotor,
+      pivotOffset,
+      initialTilt: (initialTilt * Math.PI) / 180,
+      spin,
+      integrator,
+      push: drag?.torque ?? [0, 0, 0],
+    },
+    (previous, simulation, alpha, frame) => {
+      bodyRef.current?.quaternion.fromArray(quatSlerp(previous.body.orientation, simulation.body.orientation, alpha));
+      poseRef.current = {
+        center: PIVOT,
+        orientation: simulation.body.orientation,
+        angularVelocity: worldAngularVelocity(simulation.body),
+      };
+      if (onTelemetry && simulation.drift && frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+        lastTelemetryRef.current = frame.clock.elapsedTime;
+        const measured = simulation.precession;
+        onTelemetry({
+          drift: simulation.drift,
+          energyMomentum: topEnergyMomentum(top, simulation.body),
+          precession: measured && { ...measured, steady: steadyPrecession(top, measured.tilt, spin) },
+        });
+      }
+    },
+  );
+
+  return (
+    <group>
+      {/* Support post */}
+      <mesh position={[0, PIVOT_HEIGHT / 2, 0]} castShadow>
+        <cylinderGeometry args={[0.06, 0.4, PIVOT_HEIGHT, 16]} />
+        <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+      </mesh>
+
+      <FictitiousForces poseRef={poseRef} markers={rimMarkers} />
+
+      {drag && length(sub(drag.to, drag.from)) > 0.01 && (
+        <VectorDisplay
+          axis={sub(drag.to, drag.from)}
+          magnitude={length(sub(drag.to, drag.from))}
+          position={drag.from}
+          label={`Push: ${formatQuantity(units, 'torque', length(drag.torque), 1)}`}
+          color="#10B981"
+        />
+      )}
+
+      <group position={PIVOT}>
+        {/* Pivot point */}
+        <mesh castShadow>
+          <sphereGeometry args={[0.08, 16, 16]} />
+          <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+        </mesh>
+
+        <group ref={bodyRef} {...handlers}>
+          {/* Axle from the pivot through the rotor */}
+          <mesh position={[0, (pivotOffset + thickness) / 2, 0]} castShadow>
+            <cylinderGeometry args={[0.04, 0.04, pivotOffset + thickness, 8]} />
+            <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+          </mesh>
+          <Rotor radius={radius} thickness={thickness} shape={rotor.shape} position={[0, pivotOffset, 0]} />
+        </group>
+      </group>
+    </group>
+  );
+};
+
+export default PivotedTop;
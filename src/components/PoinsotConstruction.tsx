@@ -0,0 +1,135 @@
+import React, { RefObject, useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { BufferAttribute, BufferGeometry, DoubleSide, Group, Line, LineBasicMaterial, Mesh } from 'three';
+import { Vec3, length, quatFromUnitVectors, scale, sub } from '@/lib/physics/math';
+import { RigidBody, RigidBodyState } from '@/lib/physics/rigid-body';
+import { poinsotConstruction } from '@/lib/physics/poinsot';
+
+interface PoinsotConstructionProps {
+  body: RigidBody;
+  // Latest state of the body, kept up to date by the simulation
+  stateRef: RefObject<RigidBodyState>;
+  // Size the longest semi-axis of the ellipsoid is drawn at when the body is released (m)
+  size: number;
+}
+
+const ELLIPSOID_COLOR = '#60A5FA';
+const PLANE_COLOR = '#9CA3AF';
+const POLHODE_COLOR = '#F59E0B';
+const HERPOLHODE_COLOR = '#EC4899';
+
+// Points kept in each trail
+const TRAIL_LENGTH = 2000;
+// Relative move of the invariable plane from one frame to the next taken as a new motion
+const PLANE_JUMP = 1e-3;
+
+const createTrail = (color: string) => {
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new BufferAttribute(new Float32Array(3 * TRAIL_LENGTH), 3));
+  geometry.setDrawRange(0, 0);
+  const trail = new Line(geometry, new LineBasicMaterial({ color }));
+  // The trail grows every frame, so its bounds are never up to date
+  trail.frustumCulled = false;
+  return trail;
+};
+
+// Adds a point to the end of the trail, dropping the oldest once it is full
+const extendTrail = (trail: Line, point: Vec3) => {
+  const attribute = trail.geometry.getAttribute('position') as BufferAttribute;
+  const positions = attribute.array as Float32Array;
+  const count = trail.geometry.drawRange.count;
+  if (count === TRAIL_LENGTH) {
+    positions.copyWithin(0, 3);
+  }
+  const index = Math.min(count, TRAIL_LENGTH - 1);
+  positions.set(point, 3 * index);
+  attribute.needsUpdate = true;
+  trail.geometry.setDrawRange(0, index + 1);
+};
+
+// Poinsot's picture of the body's torque-free motion, drawn about its center: the energy
+// ellipsoid turning with the body and rolling on the invariable plane, with the polhode it
+// traces on the ellipsoid and the herpolhode it traces on the plane
+const PoinsotConstruction: React.FC<PoinsotConstructionProps> = ({ body, stateRef, size }) => {
+  const rootRef = useRef<Group>(null);
+  const bodyFrameRef = useRef<Group>(null);
+  const ellipsoidRef = useRef<Mesh>(null);
+  const planeRef = useRef<Group>(null);
+  const contactRef = useRef<Mesh>(null);
+  const trails = useMemo(
+    () => ({ polhode: createTrail(POLHODE_COLOR), herpolhode: createTrail(HERPOLHODE_COLOR) }),
+    [],
+  );
+  // Drawing scale (m per rad/s), and the plane of the previous frame
+  const drawRef = useRef<{ scale: number; normal: Vec3; distance: number } | null>(null);
+
+  useEffect(
+    () => () => {
+      [trails.polhode, trails.herpolhode].forEach((trail) => {
+        trail.geometry.dispose();
+        (trail.material as LineBasicMaterial).dispose();
+      });
+    },
+    [trails],
+  );
+
+  useFrame(() => {
+    const state = stateRef.current;
+    const construction = state && poinsotConstruction(body, state);
+    if (rootRef.current) {
+      rootRef.current.visible = construction !== null;
+    }
+    if (!state || !construction) {
+      drawRef.current = null;
+      return;
+    }
+
+    // A push or a new release moves the plane, and the picture starts over at a scale that
+    // fits the new ellipsoid
+    const { semiAxes, normal, distance, bodyContact, worldContact } = construction;
+    const previous = drawRef.current;
+    const moved =
+      !previous ||
+      length(sub(normal, previous.normal)) > PLANE_JUMP ||
+      Math.abs(distance - previous.distance) > PLANE_JUMP * previous.distance;
+    if (moved) {
+      trails.polhode.geometry.setDrawRange(0, 0);
+      trails.herpolhode.geometry.setDrawRange(0, 0);
+    }
+    const drawScale = previous && !moved ? previous.scale : size / Math.max(...semiAxes);
+    drawRef.current = { scale: drawScale, normal, distance };
+
+    bodyFrameRef.current?.quaternion.fromArray(state.orientation);
+    ellipsoidRef.current?.scale.fromArray(scale(semiAxes, drawScale));
+    planeRef.current?.position.fromArray(scale(normal, distance * drawScale));
+    planeRef.current?.quaternion.fromArray(quatFromUnitVectors([0, 1, 0], normal));
+    contactRef.current?.position.fromArray(scale(worldContact, drawScale));
+    extendTrail(trails.polhode, scale(bodyContact, drawScale));
+    extendTrail(trails.herpolhode, scale(worldContact, drawScale));
+  });
+
+  return (
+    <group ref={rootRef} visible={false}>
+      <group ref={bodyFrameRef}>
+        <mesh ref={ellipsoidRef}>
+          <sphereGeometry args={[1, 32, 16]} />
+          <meshBasicMaterial color={ELLIPSOID_COLOR} wireframe transparent opacity={0.35} />
+        </mesh>
+        <primitive object={trails.polhode} />
+      </group>
+      <group ref={planeRef}>
+        <mesh rotation={[-Math.PI / 2, 0, 0]}>
+          <planeGeometry args={[3 * size, 3 * size]} />
+          <meshBasicMaterial color={PLANE_COLOR} transparent opacity={0.2} side={DoubleSide} depthWrite={false} />
+        </mesh>
+      </group>
+      <primitive object={trails.herpolhode} />
+      <mesh ref={contactRef}>
+        <sphereGeometry args={[0.05, 12, 12]} />
+        <meshBasicMaterial color={HERPOLHODE_COLOR} />
+      </mesh>
+    </group>
+  );
+};
+
+export default PoinsotConstruction;
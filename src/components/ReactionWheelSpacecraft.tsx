@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Group, MeshBasicMaterial } from 'three';
+import { Vec3, length, quatFromUnitVectors, quatFromYawPitchRoll, quatSlerp } from '@/lib/physics/math';
+import {
+  AttitudeController,
+  ReactionWheelParams,
+  WHEEL_COLORS,
+  WheelLayout,
+  attitudeErrorAngle,
+  wheelAxes,
+} from '@/lib/physics/reaction-wheels';
+import { SPACECRAFT_BUS } from '@/lib/physics/spacecraft';
+import { fromRpm } from '@/lib/units';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import Rotor from './Rotor';
+import SpacecraftBus, { DECK_HEIGHT } from './SpacecraftBus';
+
+// Where the wheels sit on the top deck, from its middle, and how big they are drawn (m)
+const WHEEL_SPACING = 0.45;
+const WHEEL_RADIUS = 0.18;
+// How often the control panel is sent fresh readings, and how many are kept for the traces
+const TELEMETRY_INTERVAL = 0.1;
+const TRACE_LENGTH = 300;
+
+interface ReactionWheelSpacecraftProps {
+  layout: WheelLayout;
+  count: number;
+  controller: AttitudeController;
+  // Natural frequency of the closed loop (rad/s)
+  bandwidth: number;
+  // Wheel speed limit (RPM)
+  maxSpeed: number;
+  // Target yaw, pitch and roll (degrees)
+  target: Vec3;
+  // Bumped to put the spacecraft back at rest with the wheels stopped
+  launch: number;
+  onTelemetry?: (telemetry: ReactionWheelTelemetry) => void;
+}
+
+export interface ReactionWheelSample {
+  time: number;
+  // Angle left to the target (rad) and wheel speeds (rad/s)
+  error: number;
+  speeds: number[];
+}
+
+export interface ReactionWheelTelemetry {
+  // How fast the bus turns (rad/s)
+  rate: number;
+  // Most recent samples, oldest first
+  trace: ReactionWheelSample[];
+}
+
+// A spacecraft turned to a commanded attitude by reaction wheels. The wireframe shows the
+// target attitude, and a wheel's ring turns red while it is held at its speed limit.
+const ReactionWheelSpacecraft: React.FC<ReactionWheelSpacecraftProps> = ({
+  layout,
+  count,
+  controller,
+  bandwidth,
+  maxSpeed,
+  target,
+  launch,
+  onTelemetry,
+}) => {
+  const bodyRef = useRef<Group>(null);
+  const wheelRefs = useRef<(Group | null)[]>([]);
+  const ringRefs = useRef<(MeshBasicMaterial | null)[]>([]);
+  const axes = useMemo(() => wheelAxes(layout, count), [layout, count]);
+  const [yaw, pitch, roll] = target;
+  const targetOrientation = useMemo(
+    () => quatFromYawPitchRoll([yaw, pitch, roll].map((angle) => (angle * Math.PI) / 180) as Vec3),
+    [yaw, pitch, roll],
+  );
+  const params: ReactionWheelParams = {
+    axes,
+    maxSpeed: fromRpm(maxSpeed),
+    controller,
+    bandwidth,
+    target: targetOrientation,
+  };
+  const wheelFrames = useMemo(() => axes.map((axis) => quatFromUnitVectors([0, 1, 0], axis)), [axes]);
+
+  const traceRef = useRef<ReactionWheelSample[]>([]);
+  const lastTelemetryRef = useRef(0);
+
+  // The worker puts the spacecraft back at rest when the wheels change or it is launched
+  // again, so the trace starts over with it
+  useEffect(() => {
+    traceRef.current = [];
+  }, [axes, launch]);
+
+  useWorkerSimulation('reaction-wheels', { ...params, launch }, (previous, simulation, alpha, frame) => {
+    bodyRef.current?.quaternion.fromArray(quatSlerp(previous.body.orientation, simulation.body.orientation, alpha));
+    simulation.wheelSpeeds.forEach((speed, i) => {
+      wheelRefs.current[i]?.rotation.set(0, simulation.wheelAngles[i], 0);
+      ringRefs.current[i]?.color.set(Math.abs(speed) >= params.maxSpeed ? '#EF4444' : '#9CA3AF');
+    });
+
+    if (frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+      lastTelemetryRef.current = frame.clock.elapsedTime;
+      const sample = {
+        time: simulation.time,
+        error: attitudeErrorAngle(simulation.body, targetOrientation),
+        speeds: simulation.wheelSpeeds,
+      };
+      traceRef.current = [...traceRef.current.slice(1 - TRACE_LENGTH), sample];
+      onTelemetry?.({ rate: length(simulation.body.angularVelocity), trace: traceRef.current });
+    }
+  });
+
+  return (
+    <>
+      {/* Target attitude */}
+      <mesh quaternion={targetOrientation}>
+        <boxGeometry args={SPACECRAFT_BUS.size} />
+        <meshBasicMaterial color="#10B981" wireframe />
+      </mesh>
+
+      <group ref={bodyRef}>
+        <SpacecraftBus />
+
+        {/* Wheels on the top deck, each turning about its own axis */}
+        {wheelFrames.map((quaternion, i) => {
+          const side = (2 * Math.PI * i) / wheelFrames.length;
+          return (
+            <group
+              key={i}
+              position={[
+                WHEEL_SPACING * Math.cos(side),
+                DECK_HEIGHT + WHEEL_RADIUS + 0.1,
+                WHEEL_SPACING * Math.sin(side),
+              ]}
+              quaternion={quaternion}
+            >
+              <Rotor
+                ref={(group) => {
+                  wheelRefs.current[i] = group;
+                }}
+                radius={WHEEL_RADIUS}
+                thickness={0.06}
+                axleLength={0.2}
+              />
+              <mesh rotation={[Math.PI / 2, 0, 0]}>
+                <torusGeometry args={[WHEEL_RADIUS + 0.04, 0.015, 8, 32]} />
+                <meshBasicMaterial
+                  ref={(material) => {
+                    ringRefs.current[i] = material;
+                  }}
+                  color="#9CA3AF"
+                />
+              </mesh>
+              {/* Marker in the wheel's trace color */}
+              <mesh position={[0, 0.12, 0]}>
+                <sphereGeometry args={[0.03, 8, 8]} />
+                <meshBasicMaterial color={WHEEL_COLORS[i]} />
+              </mesh>
+            </group>
+          );
+        })}
+      </group>
+    </>
+  );
+};
+
+export default ReactionWheelSpacecraft;
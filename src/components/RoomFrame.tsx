@@ -0,0 +1,42 @@
+import React, { useMemo, useRef } from 'react';
+import { Group } from 'three';
+import { lerp } from '@/lib/physics/math';
+import { FrameView, RoomFrameContext } from '@/hooks/use-room-frame';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+
+interface RoomFrameProps {
+  // Rate the room turns at about the vertical axis (rad/s)
+  rate: number;
+  view: FrameView;
+  // Drawn turning with the room
+  room: React.ReactNode;
+  // Drawn in the inertial frame
+  children: React.ReactNode;
+}
+
+// Turns the room about the vertical axis and draws the scene from the chosen frame. Viewed
+// from the room, the whole scene is turned back so the room stands still.
+const RoomFrame: React.FC<RoomFrameProps> = ({ rate, view, room, children }) => {
+  const inertialRef = useRef<Group>(null);
+  const roomRef = useRef<Group>(null);
+
+  // The room's clock runs in the physics worker, in step with the simulations in the room
+  useWorkerSimulation('room', { rate }, (previous, current, alpha) => {
+    const angle = lerp(previous.angle, current.angle, alpha);
+    roomRef.current?.rotation.set(0, angle, 0);
+    inertialRef.current?.rotation.set(0, view === 'room' ? -angle : 0, 0);
+  });
+
+  const frame = useMemo(() => ({ rate, view, inertialRef }), [rate, view]);
+
+  return (
+    <RoomFrameContext.Provider value={frame}>
+      <group ref={inertialRef}>
+        <group ref={roomRef}>{room}</group>
+        {children}
+      </group>
+    </RoomFrameContext.Provider>
+  );
+};
+
+export default RoomFrame;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Group } from 'three';
+import { RotorShape, tHandleLayout } from '@/lib/physics/rotor';
+
+interface RotorProps {
+  radius: number;
+  thickness: number;
+  shape?: RotorShape;
+  // Axle drawn through the hub when given (m)
+  axleLength?: number;
+  position?: [number, number, number];
+}
+
+const THandle: React.FC<{ radius: number; thickness: number }> = ({ radius, thickness }) => {
+  const { crossbar, stem } = tHandleLayout(radius);
+  return (
+    <>
+      {/* Crossbar along X */}
+      <mesh position={[0, crossbar.height, 0]} rotation={[0, 0, Math.PI / 2]} castShadow>
+        <cylinderGeometry args={[thickness / 2, thickness / 2, crossbar.length, 16]} />
+        <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+      </mesh>
+      {/* Stem along Y */}
+      <mesh position={[0, stem.height, 0]} castShadow>
+        <cylinderGeometry args={[thickness / 2, thickness / 2, stem.length, 16]} />
+        <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+      </mesh>
+    </>
+  );
+};
+
+// Spinning body with its axle along local Y, drawn to the same dimensions its inertia is
+// computed from (see RotorShape)
+const Rotor = React.forwardRef<Group, RotorProps>(({ radius, thickness, shape = 'disk', axleLength, position }, ref) => (
+  <group ref={ref} position={position}>
+    {shape === 'disk' && (
+      <>
+        {/* Central Spinning Wheel */}
+        <mesh castShadow>
+          <cylinderGeometry args={[radius, radius, thickness, 32]} />
+          <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+        </mesh>
+
+        {/* Wheel Details - concentric rings on both faces for classic look */}
+        {[thickness / 2, -thickness / 2].map((face) =>
+          [0.8, 0.6, 0.4].map((fraction) => (
+            <mesh key={`${face}-${fraction}`} position={[0, face, 0]} rotation={[Math.PI / 2, 0, 0]} castShadow>
+              <torusGeometry args={[radius * fraction, 0.03, 8, 32]} />
+              <meshStandardMaterial color="#654321" metalness={0.8} roughness={0.2} />
+            </mesh>
+          )),
+        )}
+      </>
+    )}
+
+    {shape === 'block' && (
+      <mesh castShadow>
+        <boxGeometry args={[2 * radius, thickness, radius]} />
+        <meshStandardMaterial color="#8B4513" metalness={0.6} roughness={0.4} />
+      </mesh>
+    )}
+
+    {shape === 't-handle' && <THandle radius={radius} thickness={thickness} />}
+
+    {/* Axle */}
+    {axleLength !== undefined && (
+      <mesh castShadow>
+        <cylinderGeometry args={[0.04, 0.04, axleLength, 8]} />
+        <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+      </mesh>
+    )}
+  </group>
+));
+
+Rotor.displayName = 'Rotor';
+
+export default Rotor;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ROTOR_SHAPES, RotorProperties, rotorInertia, rotorVolume } from '@/lib/physics/rotor';
+import { formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import { useUnits } from '@/hooks/use-units';
+
+interface RotorPropertiesControlProps {
+  rotor: RotorProperties;
+  onChange: (rotor: RotorProperties) => void;
+}
+
+type MassBasis = 'mass' | 'density';
+
+// kg/m³
+const MATERIALS: { label: string; density: number }[] = [
+  { label: 'Foam', density: 30 },
+  { label: 'Wood', density: 700 },
+  { label: 'Aluminium', density: 2700 },
+  { label: 'Steel', density: 7850 },
+];
+
+const RotorPropertiesControl: React.FC<RotorPropertiesControlProps> = ({ rotor, onChange }) => {
+  const [basis, setBasis] = useState<MassBasis>('mass');
+  const [density, setDensity] = useState(rotor.mass / rotorVolume(rotor));
+  const units = useUnits();
+
+  // With the density fixed, resizing or reshaping the body changes its mass too
+  const reshape = (geometry: Partial<Omit<RotorProperties, 'mass'>>) => {
+    const next = { ...rotor, ...geometry };
+    onChange({ ...next, mass: basis === 'density' ? density * rotorVolume(next) : rotor.mass });
+  };
+
+  const changeDensity = (value: number) => {
+    setDensity(value);
+    onChange({ ...rotor, mass: value * rotorVolume(rotor) });
+  };
+
+  const changeBasis = (value: MassBasis) => {
+    setBasis(value);
+    if (value === 'density') {
+      setDensity(rotor.mass / rotorVolume(rotor));
+    }
+  };
+
+  const inertia = rotorInertia(rotor);
+
+  return (
+    <div>
+      <div className="flex space-x-2 mb-3">
+        {ROTOR_SHAPES.map(({ shape, label }) => (
+          <button
+            key={shape}
+            onClick={() => reshape({ shape })}
+            className={`px-3 py-1 rounded text-sm ${
+              rotor.shape === shape ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mb-3">
+        <label className="block text-xs text-gray-600 mb-1">
+          Radius: {formatQuantity(units, 'length', rotor.radius, 2)}
+        </label>
+        <input
+          type="range"
+          min="0.3"
+          max="1.5"
+          step="0.05"
+          value={rotor.radius}
+          onChange={(e) => reshape({ radius: Number(e.target.value) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div className="mb-3">
+        <label className="block text-xs text-gray-600 mb-1">
+          {rotor.shape === 't-handle' ? 'Rod Diameter' : 'Thickness'}:{' '}
+          {formatQuantity(units, 'length', rotor.thickness, 2)}
+        </label>
+        <input
+          type="range"
+          min="0.05"
+          max="0.5"
+          step="0.05"
+          value={rotor.thickness}
+          onChange={(e) => reshape({ thickness: Number(e.target.value) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div className="mb-3">
+        <div className="flex space-x-2 mb-2">
+          {(['mass', 'density'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => changeBasis(value)}
+              className={`px-3 py-1 rounded text-sm ${
+                basis === value ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+              }`}
+            >
+              {value === 'mass' ? 'Mass' : 'Density'}
+            </button>
+          ))}
+        </div>
+        {basis === 'mass' ? (
+          <>
+            <label className="block text-xs text-gray-600 mb-1">
+              Mass: {formatQuantity(units, 'mass', rotor.mass, 1)}
+            </label>
+            <input
+              type="range"
+              min="0.5"
+              max="10"
+              step="0.5"
+              value={rotor.mass}
+              onChange={(e) => onChange({ ...rotor, mass: Number(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </>
+        ) : (
+          <>
+            <label className="block text-xs text-gray-600 mb-1">
+              Density: {formatQuantity(units, 'density', density, units.system === 'si' ? 0 : 1)} (mass{' '}
+              {formatQuantity(units, 'mass', rotor.mass, 1)})
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="8000"
+              value={density}
+              onChange={(e) => changeDensity(Number(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <div className="flex space-x-1 mt-2">
+              {MATERIALS.map(({ label, density: value }) => (
+                <button
+                  key={label}
+                  onClick={() => changeDensity(value)}
+                  className="px-2 py-1 rounded text-xs bg-gray-200 text-gray-700"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-600">
+        <p>
+          Principal inertia (X, axle Y, Z):{' '}
+          {[inertia[0], inertia[4], inertia[8]]
+            .map((value) => toDisplay(units, 'inertia', value).toFixed(3))
+            .join(', ')}{' '}
+          {unitSymbol(units, 'inertia')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RotorPropertiesControl;
@@ -0,0 +1,258 @@
+import React, { useMemo, useRef } from 'react';
+import { Line } from '@react-three/drei';
+import { Group, Matrix4, Mesh, Quaternion, Vector3 } from 'three';
+import {
+  Quat,
+  Vec3,
+  cross,
+  directionFromSpherical,
+  length,
+  normalize,
+  quatFromUnitVectors,
+  quatSlerp,
+  scale,
+} from '@/lib/physics/math';
+import {
+  CmgArray,
+  CmgSingularity,
+  cmgMomentum,
+  cmgSingularity,
+  createCmgArray,
+  momentumEnvelope,
+} from '@/lib/physics/cmg';
+import { RotorProperties, rotorInertia } from '@/lib/physics/rotor';
+import { fromRpm } from '@/lib/units';
+import { useWorkerSimulation } from '@/hooks/use-worker-simulation';
+import Rotor from './Rotor';
+import SpacecraftBus, { DECK_HEIGHT } from './SpacecraftBus';
+
+// Size the momentum envelope is drawn at, furthest out (m)
+const ENVELOPE_RADIUS = 2.2;
+// Where the CMGs sit on the top deck, from its middle, and how big they are drawn (m)
+const CMG_SPACING = 0.45;
+const CMG_WHEEL_RADIUS = 0.18;
+// How often the control panel is sent fresh readings (s)
+const TELEMETRY_INTERVAL = 0.1;
+
+interface SpacecraftProps {
+  spinRate: number;
+  spinDirection: number;
+  // Each CMG's wheel
+  rotor: RotorProperties;
+  count: number;
+  // Commanded gimbal rate of each CMG (degrees/s)
+  gimbalRates: number[];
+  // Bumped to put the spacecraft back at rest with the gimbals at zero
+  launch: number;
+  onTelemetry?: (telemetry: SpacecraftTelemetry) => void;
+}
+
+export interface SpacecraftTelemetry {
+  // Gimbal angles (rad)
+  angles: number[];
+  // Angle the spacecraft has turned through since it was at rest (rad), and how fast it
+  // turns (rad/s)
+  slew: number;
+  rate: number;
+  // Momentum stored in the CMGs, and the most they could store in that direction (N·m·s)
+  storedMomentum: number;
+  envelopeMomentum: number;
+  singularity: CmgSingularity;
+}
+
+// Latitude and longitude lines over the momentum envelope (body frame, drawn scale)
+const envelopeLines = (array: CmgArray, drawScale: number): Vec3[][] => {
+  const point = (azimuth: number, elevation: number) =>
+    scale(momentumEnvelope(array, directionFromSpherical(azimuth, elevation)), drawScale);
+  const steps = Array.from({ length: 49 }, (_, i) => i / 48);
+  const latitudes = [-60, -30, 0, 30, 60].map((degrees) =>
+    steps.map((t) => point(2 * Math.PI * t, (degrees * Math.PI) / 180)),
+  );
+  const longitudes = Array.from({ length: 8 }, (_, i) =>
+    steps.map((t) => point((i * Math.PI) / 4, Math.PI * (t - 0.5) * 0.98)),
+  );
+  return [...latitudes, ...longitudes];
+};
+
+// Rotation taking a CMG's local frame to the body: its gimbal axis along local Y, and its
+// wheel momentum along local Z at zero gimbal angle
+const cmgFrame = (gimbalAxis: Vec3, referenceDirection: Vec3): Quat => {
+  const basis = new Matrix4().makeBasis(
+    new Vector3(...cross(gimbalAxis, referenceDirection)),
+    new Vector3(...gimbalAxis),
+    new Vector3(...referenceDirection),
+  );
+  return new Quaternion().setFromRotationMatrix(basis).toArray() as Quat;
+};
+
+// A spacecraft in free space steered by single-gimbal control moment gyroscopes. Nothing
+// outside acts on it, so the momentum the gimbals swing into the wheels is taken out of the
+// bus, which turns the other way. The wireframe is the momentum envelope the CMGs can hold
+// (fixed to the bus), the blue arrow the momentum they hold now, and the red axis the
+// direction they cannot torque about when they are singular.
+const Spacecraft: React.FC<SpacecraftProps> = ({
+  spinRate,
+  spinDirection,
+  rotor,
+  count,
+  gimbalRates,
+  launch,
+  onTelemetry,
+}) => {
+  const bodyRef = useRef<Group>(null);
+  const momentumRef = useRef<Group>(null);
+  const momentumShaftRef = useRef<Mesh>(null);
+  const momentumHeadRef = useRef<Mesh>(null);
+  const singularRef = useRef<Group>(null);
+  const gimbalRefs = useRef<(Group | null)[]>([]);
+  const wheelRefs = useRef<(Group | null)[]>([]);
+  const spin = fromRpm(spinRate * spinDirection);
+  const wheelMomentum = rotorInertia(rotor)[4] * spin;
+  const array = useMemo(() => createCmgArray(count, wheelMomentum), [count, wheelMomentum]);
+
+  // The envelope scales with the wheel momentum, so it is drawn for a unit one
+  const { lines, drawScale } = useMemo(() => {
+    const unit = createCmgArray(count, 1);
+    const reach = Math.max(
+      ...[0, 1, 2].flatMap((axis) =>
+        [1, -1].map((sign) => {
+          const direction: Vec3 = [0, 0, 0];
+          direction[axis] = sign;
+          return length(momentumEnvelope(unit, direction));
+        }),
+      ),
+    );
+    return { lines: envelopeLines(unit, ENVELOPE_RADIUS / reach), drawScale: ENVELOPE_RADIUS / reach };
+  }, [count]);
+  const frames = useMemo(
+    () => array.gimbalAxes.map((axis, i) => cmgFrame(axis, array.referenceDirections[i])),
+    [array],
+  );
+
+  const lastTelemetryRef = useRef(0);
+
+  // The spacecraft is stepped in the physics worker, which puts it back at rest with the
+  // gimbals at zero when the CMGs change or it is launched again
+  useWorkerSimulation(
+    'cmg-spacecraft',
+    {
+      count,
+      wheelMomentum,
+      spin,
+      gimbalRates: gimbalRates.slice(0, count).map((rate) => (rate * Math.PI) / 180),
+      launch,
+    },
+    (previous, simulation, alpha, frame) => {
+      bodyRef.current?.quaternion.fromArray(quatSlerp(previous.body.orientation, simulation.body.orientation, alpha));
+      simulation.angles.forEach((angle, i) => {
+        const previousAngle = previous.angles[i] ?? angle;
+        gimbalRefs.current[i]?.rotation.set(0, previousAngle + (angle - previousAngle) * alpha, 0);
+        wheelRefs.current[i]?.rotation.set(0, simulation.spinAngle, 0);
+      });
+
+      const momentum = cmgMomentum(array, simulation.angles);
+      const stored = length(momentum);
+      const arrow = momentumRef.current;
+      if (arrow) {
+        arrow.visible = stored > 1e-6;
+        if (arrow.visible) {
+          arrow.quaternion.fromArray(quatFromUnitVectors([0, 1, 0], normalize(momentum)));
+          const size = (stored / Math.abs(wheelMomentum)) * drawScale;
+          momentumShaftRef.current?.scale.set(1, size, 1);
+          momentumShaftRef.current?.position.set(0, size / 2, 0);
+          momentumHeadRef.current?.position.set(0, size, 0);
+        }
+      }
+      const singularity = cmgSingularity(array, simulation.angles);
+      const axis = singularRef.current;
+      if (axis) {
+        axis.visible = singularity.kind !== 'none';
+        axis.quaternion.fromArray(quatFromUnitVectors([0, 1, 0], singularity.direction));
+      }
+
+      if (onTelemetry && frame.clock.elapsedTime - lastTelemetryRef.current >= TELEMETRY_INTERVAL) {
+        lastTelemetryRef.current = frame.clock.elapsedTime;
+        const envelope = stored > 1e-6 ? length(momentumEnvelope(array, normalize(momentum))) : 0;
+        onTelemetry({
+          angles: simulation.angles,
+          slew: 2 * Math.acos(Math.min(1, Math.abs(simulation.body.orientation[3]))),
+          rate: length(simulation.body.angularVelocity),
+          storedMomentum: stored,
+          envelopeMomentum: envelope,
+          singularity,
+        });
+      }
+    },
+  );
+
+  return (
+    <group ref={bodyRef}>
+      <SpacecraftBus />
+
+      {/* CMGs on the top deck, each turning in its gimbal */}
+      {frames.map((quaternion, i) => {
+        const side = (i * Math.PI) / 2;
+        return (
+          <group
+            key={i}
+            position={[
+              CMG_SPACING * Math.cos(side),
+              DECK_HEIGHT + CMG_WHEEL_RADIUS + 0.1,
+              CMG_SPACING * Math.sin(side),
+            ]}
+            quaternion={quaternion}
+          >
+            {/* Gimbal shaft */}
+            <mesh>
+              <cylinderGeometry args={[0.02, 0.02, 2 * CMG_WHEEL_RADIUS + 0.2, 8]} />
+              <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+            </mesh>
+            <group
+              ref={(group) => {
+                gimbalRefs.current[i] = group;
+              }}
+            >
+              <mesh>
+                <torusGeometry args={[CMG_WHEEL_RADIUS + 0.05, 0.015, 8, 32]} />
+                <meshStandardMaterial color="#CD7F32" metalness={0.7} roughness={0.3} />
+              </mesh>
+              <group rotation={[Math.PI / 2, 0, 0]}>
+                <Rotor
+                  ref={(group) => {
+                    wheelRefs.current[i] = group;
+                  }}
+                  radius={CMG_WHEEL_RADIUS}
+                  thickness={0.06}
+                  axleLength={2 * CMG_WHEEL_RADIUS + 0.1}
+                />
+              </group>
+            </group>
+          </group>
+        );
+      })}
+
+      {/* Momentum envelope, the CMG momentum and the singular direction */}
+      {lines.map((points, i) => (
+        <Line key={i} points={points} color="#60A5FA" lineWidth={1} transparent opacity={0.35} />
+      ))}
+      <group ref={momentumRef}>
+        <mesh ref={momentumShaftRef}>
+          <cylinderGeometry args={[0.03, 0.03, 1, 8]} />
+          <meshBasicMaterial color="#3B82F6" />
+        </mesh>
+        <mesh ref={momentumHeadRef}>
+          <coneGeometry args={[0.08, 0.16, 8]} />
+          <meshBasicMaterial color="#3B82F6" />
+        </mesh>
+      </group>
+      <group ref={singularRef}>
+        <mesh>
+          <cylinderGeometry args={[0.025, 0.025, 2 * ENVELOPE_RADIUS + 0.6, 8]} />
+          <meshBasicMaterial color="#EF4444" />
+        </mesh>
+      </group>
+    </group>
+  );
+};
+
+export default Spacecraft;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { SPACECRAFT_BUS } from '@/lib/physics/spacecraft';
+
+// Height of the top deck above the bus's center, where the momentum devices are mounted (m)
+export const DECK_HEIGHT = SPACECRAFT_BUS.size[1] / 2;
+
+// Spacecraft bus wrapped in foil, with solar arrays on booms along ±X
+const SpacecraftBus: React.FC = () => {
+  const [width, height, depth] = SPACECRAFT_BUS.size;
+  return (
+    <>
+      <mesh castShadow>
+        <boxGeometry args={[width, height, depth]} />
+        <meshStandardMaterial color="#D4AF37" metalness={0.8} roughness={0.35} />
+      </mesh>
+      {[1, -1].map((side) => (
+        <group key={side}>
+          <mesh position={[side * (width / 2 + 0.3), 0, 0]} rotation={[0, 0, Math.PI / 2]}>
+            <cylinderGeometry args={[0.03, 0.03, 0.6, 8]} />
+            <meshStandardMaterial color="#C0C0C0" metalness={0.9} roughness={0.2} />
+          </mesh>
+          <mesh position={[side * (width / 2 + 0.6 + 1.1), 0, 0]} castShadow>
+            <boxGeometry args={[2.2, 0.03, 1]} />
+            <meshStandardMaterial color="#1E3A8A" metalness={0.5} roughness={0.3} />
+          </mesh>
+        </group>
+      ))}
+    </>
+  );
+};
+
+export default SpacecraftBus;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Vec3, directionFromSpherical, length, normalize, sphericalFromDirection } from '@/lib/physics/math';
+
+interface SpinAxisPickerProps {
+  value: Vec3;
+  onChange: (axis: Vec3) => void;
+}
+
+const PRESETS: { label: string; axis: Vec3 }[] = [
+  { label: 'X', axis: [1, 0, 0] },
+  { label: 'Y', axis: [0, 1, 0] },
+  { label: 'Z', axis: [0, 0, 1] },
+];
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const sameAxis = (a: Vec3, b: Vec3) => a.every((value, i) => Math.abs(value - b[i]) < 1e-6);
+
+const SpinAxisPicker: React.FC<SpinAxisPickerProps> = ({ value, onChange }) => {
+  const { azimuth, elevation } = sphericalFromDirection(value);
+  const isVertical = Math.hypot(value[0], value[2]) < 1e-6;
+
+  // Azimuth is undefined at the poles, so keep the last meaningful one for the slider
+  const lastAzimuth = useRef(azimuth);
+  useEffect(() => {
+    if (!isVertical) {
+      lastAzimuth.current = azimuth;
+    }
+  }, [azimuth, isVertical]);
+  const displayedAzimuth = isVertical ? lastAzimuth.current : azimuth;
+
+  // Numeric entry is edited as free text and only committed (normalized) on blur or Enter
+  const [draft, setDraft] = useState<string[]>(value.map((component) => component.toFixed(3)));
+  useEffect(() => {
+    setDraft(value.map((component) => component.toFixed(3)));
+  }, [value]);
+
+  const commitDraft = () => {
+    const parsed = draft.map(Number) as Vec3;
+    if (parsed.some((component) => !Number.isFinite(component)) || length(parsed) < 1e-9) {
+      setDraft(value.map((component) => component.toFixed(3)));
+      return;
+    }
+    onChange(normalize(parsed));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2">
+        {PRESETS.map(({ label, axis }) => (
+          <button
+            key={label}
+            onClick={() => onChange(axis)}
+            className={`px-3 py-2 rounded ${
+              sameAxis(value, axis) ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">
+          Azimuth: {toDegrees(displayedAzimuth).toFixed(0)}°
+        </label>
+        <input
+          type="range"
+          min="-180"
+          max="180"
+          value={toDegrees(displayedAzimuth)}
+          onChange={(e) => onChange(directionFromSpherical(toRadians(Number(e.target.value)), elevation))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">
+          Elevation: {toDegrees(elevation).toFixed(0)}°
+        </label>
+        <input
+          type="range"
+          min="-90"
+          max="90"
+          value={toDegrees(elevation)}
+          onChange={(e) => onChange(directionFromSpherical(displayedAzimuth, toRadians(Number(e.target.value))))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div className="flex space-x-2">
+        {['x', 'y', 'z'].map((name, i) => (
+          <label key={name} className="flex items-center space-x-1 text-xs text-gray-600">
+            <span>{name}</span>
+            <input
+              type="number"
+              step="0.1"
+              value={draft[i]}
+              onChange={(e) => setDraft(draft.map((component, j) => (j === i ? e.target.value : component)))}
+              onBlur={commitDraft}
+              onKeyDown={(e) => e.key === 'Enter' && commitDraft()}
+              className="w-16 px-1 py-0.5 border rounded text-gray-700"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpinAxisPicker;
@@ -0,0 +1,78 @@
+import React from 'react';
+
+export interface TraceSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface TracePlotProps {
+  // Sample times shared by every series (s)
+  times: number[];
+  series: TraceSeries[];
+  min: number;
+  max: number;
+  unit: string;
+  // Values marked with a dashed line across the plot, e.g. limits or a target
+  guides?: number[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+// Small line chart of recent samples, scrolling as new ones arrive
+const TracePlot: React.FC<TracePlotProps> = ({ times, series, min, max, unit, guides = [] }) => {
+  const start = times[0] ?? 0;
+  const span = Math.max(1e-6, (times[times.length - 1] ?? 0) - start);
+  const x = (time: number) => ((time - start) / span) * WIDTH;
+  const y = (value: number) => ((max - Math.max(min, Math.min(max, value))) / (max - min)) * HEIGHT;
+
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>
+          {max.toFixed(0)} {unit}
+        </span>
+        <span>{span.toFixed(0)} s</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-gray-50 rounded">
+        {guides.map((guide, i) => (
+          <line
+            key={i}
+            x1={0}
+            x2={WIDTH}
+            y1={y(guide)}
+            y2={y(guide)}
+            stroke="#9CA3AF"
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {series.map(({ label, color, values }) => (
+          <polyline
+            key={label}
+            points={values.map((value, i) => `${x(times[i])},${y(value)}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>
+          {min.toFixed(0)} {unit}
+        </span>
+        <span className="flex space-x-2">
+          {series.map(({ label, color }) => (
+            <span key={label} style={{ color }}>
+              {label}
+            </span>
+          ))}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default TracePlot;
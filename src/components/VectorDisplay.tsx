@@ -1,4 +1,3 @@
-
 import React from 'react';
 import { Html } from '@react-three/drei';
 import * as THREE from 'three';
@@ -7,29 +6,40 @@ interface VectorDisplayProps {
   axis: [number, number, number];
   magnitude: number;
   position: [number, number, number];
+  label?: string;
+  color?: string;
 }
 
-const VectorDisplay: React.FC<VectorDisplayProps> = ({ axis, magnitude, position }) => {
-  const vector = new THREE.Vector3(...axis).normalize().multiplyScalar(magnitude);
-  
+const UP = new THREE.Vector3(0, 1, 0);
+
+const VectorDisplay: React.FC<VectorDisplayProps> = ({
+  axis,
+  magnitude,
+  position,
+  label = 'Angular Momentum',
+  color = '#ff6b6b',
+}) => {
+  const direction = new THREE.Vector3(...axis).normalize();
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(UP, direction);
+
   return (
-    <group position={position}>
+    <group position={position} quaternion={quaternion}>
       {/* Vector Arrow */}
-      <mesh>
+      <mesh position={[0, magnitude / 2, 0]}>
         <cylinderGeometry args={[0.02, 0.02, magnitude, 8]} />
-        <meshBasicMaterial color="#ff6b6b" />
+        <meshBasicMaterial color={color} />
       </mesh>
-      
+
       {/* Arrow Head */}
-      <mesh position={[0, magnitude / 2, 0]}>
+      <mesh position={[0, magnitude, 0]}>
         <coneGeometry args={[0.05, 0.1, 8]} />
-        <meshBasicMaterial color="#ff6b6b" />
+        <meshBasicMaterial color={color} />
       </mesh>
-      
+
       {/* Label */}
-      <Html position={[0, magnitude / 2 + 0.2, 0]} center>
-        <div className="bg-black/70 text-white px-2 py-1 rounded text-xs">
-          Angular Momentum
+      <Html position={[0, magnitude + 0.2, 0]} center>
+        <div className="bg-black/70 text-white px-2 py-1 rounded text-xs whitespace-nowrap">
+          {label}
         </div>
       </Html>
     </group>
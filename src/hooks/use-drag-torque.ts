@@ -0,0 +1,71 @@
+import { useRef, useState } from 'react';
+import { ThreeEvent, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vec3, cross, scale, sub } from '@/lib/physics/math';
+import { useRoomFrame } from './use-room-frame';
+
+// Force per meter of drag (N/m): the pointer pulls on the grabbed point like a spring
+const DRAG_STIFFNESS = 20;
+
+export interface TorqueDrag {
+  // Grabbed point and where the pointer has dragged it to (inertial frame)
+  from: Vec3;
+  to: Vec3;
+  // Torque about the pivot (inertial frame, N·m)
+  torque: Vec3;
+}
+
+// Camera controls that can be paused, like the OrbitControls the scene registers as default
+const isPausable = (controls: THREE.EventDispatcher | null): controls is THREE.EventDispatcher & { enabled: boolean } =>
+  controls !== null && 'enabled' in controls;
+
+// Lets the pointer grab a body turning about `pivot` (inertial frame) and push on it. While
+// a drag is in progress the camera controls are paused and `drag` holds the torque to apply.
+// Points are taken back to the inertial frame when the scene is viewed from the room.
+// A pivot that moves, e.g. round with a turning room, is passed as a function.
+export function useDragTorque(pivot: Vec3 | (() => Vec3)) {
+  const camera = useThree((state) => state.camera);
+  const roomFrame = useRoomFrame();
+  const controls = useThree((state) => state.controls);
+  const [drag, setDrag] = useState<TorqueDrag | null>(null);
+  // Dragging happens in the plane through the grabbed point facing the camera
+  const planeRef = useRef(new THREE.Plane());
+  const fromRef = useRef<Vec3 | null>(null);
+
+  const toInertial = (point: THREE.Vector3): Vec3 => {
+    const frame = roomFrame?.inertialRef.current;
+    return (frame ? frame.worldToLocal(point.clone()) : point).toArray() as Vec3;
+  };
+
+  const onPointerDown = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture(event.pointerId);
+    const normal = camera.getWorldDirection(new THREE.Vector3());
+    planeRef.current.setFromNormalAndCoplanarPoint(normal, event.point);
+    const from = toInertial(event.point);
+    fromRef.current = from;
+    setDrag({ from, to: from, torque: [0, 0, 0] });
+    if (isPausable(controls)) controls.enabled = false;
+  };
+
+  const onPointerMove = (event: ThreeEvent<PointerEvent>) => {
+    const from = fromRef.current;
+    const hit = new THREE.Vector3();
+    if (!from || !event.ray.intersectPlane(planeRef.current, hit)) return;
+    event.stopPropagation();
+    const to = toInertial(hit);
+    const center = typeof pivot === 'function' ? pivot() : pivot;
+    const torque = cross(sub(from, center), scale(sub(to, from), DRAG_STIFFNESS));
+    setDrag({ from, to, torque });
+  };
+
+  const onPointerUp = (event: ThreeEvent<PointerEvent>) => {
+    if (!fromRef.current) return;
+    (event.target as Element).releasePointerCapture(event.pointerId);
+    fromRef.current = null;
+    setDrag(null);
+    if (isPausable(controls)) controls.enabled = true;
+  };
+
+  return { drag, handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp } };
+}
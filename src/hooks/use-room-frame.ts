@@ -0,0 +1,18 @@
+import { RefObject, createContext, useContext } from 'react';
+import { Group } from 'three';
+
+// Which frame the scene is drawn in: the inertial frame, or the frame of the turning room
+export type FrameView = 'inertial' | 'room';
+
+export interface RoomFrame {
+  // Rate the room turns at about the vertical axis (rad/s)
+  rate: number;
+  view: FrameView;
+  // Group whose local coordinates are the inertial frame, whichever frame is viewed
+  inertialRef: RefObject<Group>;
+}
+
+export const RoomFrameContext = createContext<RoomFrame | null>(null);
+
+// The surrounding room frame, or null outside a RoomFrame (a room at rest)
+export const useRoomFrame = () => useContext(RoomFrameContext);
@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_UNITS, Units } from '@/lib/units';
+
+export const UnitsContext = createContext<Units>(DEFAULT_UNITS);
+
+// Units picked in the panel, for anything that shows a dimensioned quantity
+export const useUnits = () => useContext(UnitsContext);
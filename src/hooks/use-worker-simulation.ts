@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { RootState, useFrame } from '@react-three/fiber';
+import {
+  MAX_SIMULATIONS,
+  PhysicsRequest,
+  PhysicsResponse,
+  SEQUENCE_BYTES,
+  SNAPSHOT_BUFFER_LENGTH,
+  SNAPSHOT_SIZE,
+  SimulationKind,
+  SimulationParams,
+  slotOffset,
+} from '@/workers/protocol';
+import {
+  CmgSpacecraftSnapshot,
+  FloorTopSnapshot,
+  FreeBodySnapshot,
+  GimbalSnapshot,
+  GyrocompassSnapshot,
+  PivotedTopSnapshot,
+  ReactionWheelSnapshot,
+  RoomSnapshot,
+  decodeCmgSpacecraftSnapshot,
+  decodeFloorTopSnapshot,
+  decodeFreeBodySnapshot,
+  decodeGimbalSnapshot,
+  decodeGyrocompassSnapshot,
+  decodePivotedTopSnapshot,
+  decodeReactionWheelSnapshot,
+  decodeRoomSnapshot,
+} from '@/workers/simulations';
+
+export interface SimulationSnapshots {
+  gimbal: GimbalSnapshot;
+  'floor-top': FloorTopSnapshot;
+  'pivoted-top': PivotedTopSnapshot;
+  'free-body': FreeBodySnapshot;
+  gyrocompass: GyrocompassSnapshot;
+  'cmg-spacecraft': CmgSpacecraftSnapshot;
+  'reaction-wheels': ReactionWheelSnapshot;
+  room: RoomSnapshot;
+}
+
+const DECODERS: { [K in SimulationKind]: (values: Float64Array, offset: number) => SimulationSnapshots[K] } = {
+  gimbal: decodeGimbalSnapshot,
+  'floor-top': decodeFloorTopSnapshot,
+  'pivoted-top': decodePivotedTopSnapshot,
+  'free-body': decodeFreeBodySnapshot,
+  gyrocompass: decodeGyrocompassSnapshot,
+  'cmg-spacecraft': decodeCmgSpacecraftSnapshot,
+  'reaction-wheels': decodeReactionWheelSnapshot,
+  room: decodeRoomSnapshot,
+};
+
+interface PhysicsClient {
+  worker: Worker;
+  // Snapshots as of the current frame
+  snapshots: Float64Array;
+  // Buffer the worker writes into, when memory can be shared with it
+  shared: { sequence: Int32Array; snapshots: Float64Array } | null;
+  // Slots free for new simulations, the longest free first, so a slot's old snapshot has
+  // long been cleared before it is handed out again
+  freeSlots: number[];
+  // Simulations waiting for a slot to come free, the longest waiting first
+  waiting: Set<() => void>;
+  // Clock time of the last frame the worker was sent
+  frameTime: number;
+}
+
+let client: PhysicsClient | null = null;
+
+// One worker, started with the first simulation, runs every simulation in the scene. Memory
+// is only shared with it on a cross-origin isolated page; elsewhere it posts every update.
+const physicsClient = (): PhysicsClient => {
+  if (client) return client;
+  const worker = new Worker(new URL('../workers/physics.worker.ts', import.meta.url), { type: 'module' });
+  let shared: PhysicsClient['shared'] = null;
+  if (typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated) {
+    const buffer = new SharedArrayBuffer(SEQUENCE_BYTES + SNAPSHOT_BUFFER_LENGTH * Float64Array.BYTES_PER_ELEMENT);
+    shared = {
+      sequence: new Int32Array(buffer, 0, 1),
+      snapshots: new Float64Array(buffer, SEQUENCE_BYTES, SNAPSHOT_BUFFER_LENGTH),
+    };
+    const request: PhysicsRequest = { type: 'share', buffer };
+    worker.postMessage(request);
+  }
+  const created: PhysicsClient = {
+    worker,
+    snapshots: new Float64Array(SNAPSHOT_BUFFER_LENGTH),
+    shared,
+    freeSlots: Array.from({ length: MAX_SIMULATIONS }, (_, slot) => slot),
+    waiting: new Set(),
+    frameTime: -1,
+  };
+  worker.addEventListener('message', (event: MessageEvent<PhysicsResponse>) => {
+    created.snapshots = event.data.snapshots;
+  });
+  client = created;
+  return created;
+};
+
+const send = (request: PhysicsRequest) => physicsClient().worker.postMessage(request);
+
+// Once a frame, whichever simulation draws first: the frame's time goes to the worker and
+// the latest snapshots are copied out of the shared buffer. A copy the worker wrote over
+// meanwhile is thrown away and the frame keeps the previous one.
+const syncFrame = (frame: RootState, delta: number) => {
+  const current = physicsClient();
+  if (frame.clock.elapsedTime === current.frameTime) return;
+  current.frameTime = frame.clock.elapsedTime;
+  send({ type: 'advance', elapsed: delta });
+
+  const { shared } = current;
+  if (!shared) return;
+  const sequence = Atomics.load(shared.sequence, 0);
+  if (sequence % 2 === 1) return;
+  const copy = shared.snapshots.slice();
+  if (Atomics.load(shared.sequence, 0) === sequence) {
+    current.snapshots = copy;
+  }
+};
+
+// Runs a simulation of `kind` in the physics worker and sends it `params` whenever they
+// change. Every frame `render` is called with the snapshots after the previous and the latest
+// physics step and the fraction (0..1) of a step the worker's clock is ahead of the latest,
+// so the scene can interpolate between them. While all MAX_SIMULATIONS slots are taken the
+// simulation waits for one to come free, nothing is drawn and the hook returns false.
+export function useWorkerSimulation<K extends SimulationKind>(
+  kind: K,
+  params: SimulationParams[K],
+  render: (previous: SimulationSnapshots[K], current: SimulationSnapshots[K], alpha: number, frame: RootState) => void,
+): boolean {
+  const slotRef = useRef<number | null>(null);
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const paramsKey = JSON.stringify(params);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    const { freeSlots, waiting } = physicsClient();
+    const claim = () => {
+      const slot = freeSlots.shift();
+      if (slot === undefined) return;
+      waiting.delete(claim);
+      send({ type: 'add', slot, kind, params: paramsRef.current } as PhysicsRequest);
+      slotRef.current = slot;
+      setRunning(true);
+    };
+    waiting.add(claim);
+    claim();
+    return () => {
+      waiting.delete(claim);
+      const slot = slotRef.current;
+      if (slot === null) return;
+      send({ type: 'remove', slot });
+      freeSlots.push(slot);
+      slotRef.current = null;
+      setRunning(false);
+      // The slot goes to the simulation that has waited longest
+      waiting.values().next().value?.();
+    };
+  }, [kind]);
+
+  useEffect(() => {
+    if (slotRef.current !== null) {
+      send({ type: 'update', slot: slotRef.current, params: paramsRef.current });
+    }
+  }, [paramsKey]);
+
+  useFrame((frame, delta) => {
+    syncFrame(frame, delta);
+    const slot = slotRef.current;
+    const { snapshots } = physicsClient();
+    const offset = slot === null ? 0 : slotOffset(slot);
+    // Nothing is drawn until the worker has taken the simulation on
+    if (slot === null || snapshots[offset + SNAPSHOT_SIZE] !== 1) return;
+    const decode = DECODERS[kind];
+    render(decode(snapshots, offset), decode(snapshots, offset + SNAPSHOT_SIZE), snapshots[0], frame);
+  });
+
+  return running;
+}
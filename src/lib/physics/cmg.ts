@@ -0,0 +1,159 @@
+import { Vec3, add, cross, dot, length, normalize, scale, sub } from './math';
+import { RigidBody, RigidBodyState, isFiniteState } from './rigid-body';
+import { pyramidAxis, stepSpacecraftBody } from './spacecraft';
+
+// Control moment gyroscopes: wheels spinning at a constant rate in gimbals fixed to the
+// spacecraft. Turning a gimbal swings the wheel's momentum round the gimbal axis, and the
+// spacecraft turns the other way to keep the total fixed. The torque this gives is
+// h × gimbal rate, far more than a reaction wheel's motor could apply.
+
+export const MAX_CMGS = 4;
+
+// Singularity measure below which the CMGs count as singular
+export const SINGULARITY_THRESHOLD = 0.1;
+
+export interface CmgArray {
+  // Gimbal axes, and the directions of the wheel momentum at zero gimbal angle (body frame)
+  gimbalAxes: Vec3[];
+  referenceDirections: Vec3[];
+  // Spin momentum of each wheel (N·m·s), negative when the wheels spin the other way
+  momentum: number;
+}
+
+// The first `count` CMGs of a pyramid round body +Y: CMG i sits on the side facing
+// 90°·i about +Y, its gimbal axis square to that side and its wheel momentum along the
+// side, so four of them start with no momentum between them
+export const createCmgArray = (count: number, momentum: number): CmgArray => {
+  const sides = Array.from({ length: count }, (_, i) => (i * Math.PI) / 2);
+  return {
+    gimbalAxes: sides.map((side) => pyramidAxis(side)),
+    referenceDirections: sides.map((angle): Vec3 => [-Math.sin(angle), 0, Math.cos(angle)]),
+    momentum,
+  };
+};
+
+// Wheel momentum of each CMG at the given gimbal angles (body frame)
+export const cmgMomenta = ({ gimbalAxes, referenceDirections, momentum }: CmgArray, angles: number[]): Vec3[] =>
+  gimbalAxes.map((axis, i) => {
+    const direction = referenceDirections[i];
+    return scale(
+      add(scale(direction, Math.cos(angles[i])), scale(cross(axis, direction), Math.sin(angles[i]))),
+      momentum,
+    );
+  });
+
+export const cmgMomentum = (array: CmgArray, angles: number[]): Vec3 =>
+  cmgMomenta(array, angles).reduce(add, [0, 0, 0]);
+
+// Rate of change of each wheel's momentum per unit gimbal rate, g × h (body frame). The
+// spacecraft feels the opposite.
+export const cmgTorqueDirections = (array: CmgArray, angles: number[]): Vec3[] =>
+  cmgMomenta(array, angles).map((momentum, i) => cross(array.gimbalAxes[i], momentum));
+
+// Point of the momentum envelope, the most momentum the CMGs can hold, furthest along
+// `direction`: each wheel turned as far towards it as its gimbal lets it
+export const momentumEnvelope = ({ gimbalAxes, momentum }: CmgArray, direction: Vec3): Vec3 =>
+  gimbalAxes.reduce<Vec3>(
+    (total, axis) => {
+      const inPlane = sub(direction, scale(axis, dot(direction, axis)));
+      return length(inPlane) > 1e-9 ? add(total, scale(normalize(inPlane), momentum)) : total;
+    },
+    [0, 0, 0],
+  );
+
+export type CmgSingularityKind = 'none' | 'internal' | 'saturation';
+
+export interface CmgSingularity {
+  // Product of the singular values of the torque directions C, as many as the CMGs can span
+  // (three at most), over h to that power: 1 for CMGs with square-on torques, 0 where one of
+  // the directions they span gets no torque at all. Fewer than three CMGs never span all
+  // three, so the directions they cannot reach do not count against them.
+  measure: number;
+  // The direction within their span the CMGs give the least torque about (body frame)
+  direction: Vec3;
+  // At a singularity, whether the momentum is on the envelope (saturated, nothing to give)
+  // or inside it, where turning the gimbals another way would escape it
+  kind: CmgSingularityKind;
+}
+
+export const cmgSingularity = (array: CmgArray, angles: number[]): CmgSingularity => {
+  // Either spin direction gives the same torques, up to sign
+  const h = Math.abs(array.momentum);
+  if (h === 0) return { measure: 0, direction: [0, 1, 0], kind: 'internal' };
+  const columns = cmgTorqueDirections(array, angles).map((column) => scale(column, 1 / h));
+  // M = C Cᵀ, symmetric 3×3
+  const m = [0, 1, 2].map((row) =>
+    [0, 1, 2].map((col) => columns.reduce((sum, column) => sum + column[row] * column[col], 0)),
+  );
+  const determinant =
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+  const trace = m[0][0] + m[1][1] + m[2][2];
+  const minors =
+    m[0][0] * m[1][1] -
+    m[0][1] * m[1][0] +
+    m[0][0] * m[2][2] -
+    m[0][2] * m[2][0] +
+    m[1][1] * m[2][2] -
+    m[1][2] * m[2][1];
+  // The product of the largest `rank` eigenvalues of M: its trace, the sum of its principal
+  // minors or its determinant, as the rest are zero
+  const rank = Math.min(columns.length, 3);
+  const measure = Math.sqrt(Math.max(0, [trace, minors, determinant][rank - 1]));
+
+  // Two CMGs leave out the direction square to both their torques
+  const unreachable: Vec3 = rank === 2 ? cross(columns[0], columns[1]) : [0, 0, 0];
+  const outside: Vec3 | null = length(unreachable) > 1e-9 ? normalize(unreachable) : null;
+
+  // Eigenvector of the smallest eigenvalue within the span, by power iteration on
+  // trace(M)·I − M with the unreachable direction taken out
+  let direction: Vec3 = normalize([0.3, 1, 0.2]);
+  for (let i = 0; i < 50; i++) {
+    let next: Vec3 = [0, 1, 2].map((row) => trace * direction[row] - dot(m[row] as Vec3, direction)) as Vec3;
+    if (outside) next = sub(next, scale(outside, dot(next, outside)));
+    if (length(next) < 1e-12) break;
+    direction = normalize(next);
+  }
+
+  // Signed so the stored momentum has no component against it; then each wheel either
+  // leans towards it (+) or away, and all leaning towards it is the envelope
+  const momenta = cmgMomenta(array, angles);
+  if (dot(momenta.reduce(add, [0, 0, 0]), direction) < 0) direction = scale(direction, -1);
+  const singular = measure < SINGULARITY_THRESHOLD;
+  const saturated = momenta.every((momentum) => dot(momentum, direction) >= -1e-6 * h);
+  return { measure, direction, kind: !singular ? 'none' : saturated ? 'saturation' : 'internal' };
+};
+
+export interface CmgSpacecraftState {
+  body: RigidBodyState;
+  // Gimbal angles (rad)
+  angles: number[];
+}
+
+// Spacecraft at rest with every gimbal at zero
+export const createCmgSpacecraftState = (count: number): CmgSpacecraftState => ({
+  body: { orientation: [0, 0, 0, 1], angularVelocity: [0, 0, 0] },
+  angles: new Array<number>(count).fill(0),
+});
+
+// One step with the gimbals driven at `rates` (rad/s). The wheel momentum is taken at the
+// middle of the step, where the gimbals are halfway to their next angles.
+export const stepCmgSpacecraft = (
+  bus: RigidBody,
+  array: CmgArray,
+  state: CmgSpacecraftState,
+  rates: number[],
+  dt: number,
+): CmgSpacecraftState => {
+  const middle = state.angles.map((angle, i) => angle + (rates[i] * dt) / 2);
+  const momentumRate = cmgTorqueDirections(array, middle).reduce<Vec3>(
+    (total, direction, i) => add(total, scale(direction, rates[i])),
+    [0, 0, 0],
+  );
+  const body = stepSpacecraftBody(bus, state.body, dt, cmgMomentum(array, middle), momentumRate);
+  if (!isFiniteState(body)) {
+    return createCmgSpacecraftState(state.angles.length);
+  }
+  return { body, angles: state.angles.map((angle, i) => angle + rates[i] * dt) };
+};
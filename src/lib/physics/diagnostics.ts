@@ -0,0 +1,37 @@
+import { Vec3, length, sub } from './math';
+
+// Quantities an exact solution would keep constant for the current setup
+export interface ConservedQuantities {
+  energy: number;
+  angularMomentum: Vec3;
+}
+
+// Relative change since the reference was taken
+export interface Drift {
+  energy: number;
+  angularMomentum: number;
+}
+
+// Largest relative drift still taken for a conserved quantity
+export const CONSERVATION_TOLERANCE = 1e-3;
+
+export const formatDrift = (value: number) => `${(value * 100).toExponential(2)}%`;
+
+// Energy in its kinetic and potential parts and the world-frame angular momentum (about the
+// point the body turns about) at one moment, for checking a run by eye
+export interface EnergyMomentum {
+  kinetic: number;
+  potential: number;
+  angularMomentum: Vec3;
+}
+
+// Momentum drift is relative to `momentumScale`, by default the reference momentum itself
+export const relativeDrift = (
+  reference: ConservedQuantities,
+  current: ConservedQuantities,
+  momentumScale = length(reference.angularMomentum),
+): Drift => ({
+  energy: reference.energy !== 0 ? (current.energy - reference.energy) / Math.abs(reference.energy) : 0,
+  angularMomentum:
+    momentumScale > 0 ? length(sub(current.angularMomentum, reference.angularMomentum)) / momentumScale : 0,
+});
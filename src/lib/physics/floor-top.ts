@@ -0,0 +1,300 @@
+import {
+  Vec3,
+  add,
+  cross,
+  dot,
+  length,
+  mat3Diagonal,
+  quatFromAxisAngle,
+  quatRotate,
+  quatRotateInverse,
+  scale,
+  sub,
+} from './math';
+import {
+  RigidBody,
+  RigidBodyState,
+  createRigidBody,
+  cylinderInertia,
+  isFiniteState,
+  kineticEnergy,
+  worldAngularVelocity,
+} from './rigid-body';
+import { stepRigidBody } from './integrators';
+import { GRAVITY } from './pivoted-top';
+import { RotorProperties } from './rotor';
+
+// A top spinning on the floor plane (y = 0) with nothing holding it. The contact is a stiff
+// spring-damper for the normal force, regularized Coulomb friction against sliding, and a
+// rolling-resistance torque against rolling and drilling, so the spin decays until the top
+// falls over.
+export type FloorTopPreset = 'top' | 'tippe';
+
+// Each preset comes with a rolling resistance (m) that suits it: the spinning top's should
+// bring it down within a minute, while the tippe top needs its spin long enough to turn over
+export const FLOOR_TOP_PRESETS: { preset: FloorTopPreset; label: string; rollingFriction: number }[] = [
+  { preset: 'top', label: 'Spinning Top', rollingFriction: 0.02 },
+  { preset: 'tippe', label: 'Tippe Top', rollingFriction: 0.0005 },
+];
+
+// Radius of the spinning top's rounded tip (m)
+export const TIP_RADIUS = 0.03;
+
+// A ball whose center of mass sits below its center, with a stem opposite the heavy side.
+// Spun on the ball, friction at the sliding contact turns it over onto the stem, raising
+// the center of mass; it inverts when 1 − offset/radius < I₃/I₁ < 1 + offset/radius.
+export const TIPPE_TOP = {
+  mass: 1,
+  radius: 0.4,
+  // Center of the ball above the center of mass, along the stem (m)
+  offset: 0.12,
+  // Half-angle of the cap cut off the ball where the stem leaves it (rad)
+  capAngle: (35 * Math.PI) / 180,
+  // Stem tip, from the ball's center (m), and its rounding
+  stemLength: 0.5,
+  stemRadius: 0.04,
+  // Moments about the center of mass, as fractions of m R²: about the stem, and across it
+  axialInertia: 0.4,
+  transverseInertia: 0.34,
+};
+
+// Parts of the body that can touch the floor, in the body frame from the center of mass
+export type ContactFeature =
+  // Sphere; `cap` is the cosine of the half-angle about body +Y where it has no surface
+  | { kind: 'sphere'; center: Vec3; radius: number; cap?: number }
+  // Circular edge in the body XZ plane
+  | { kind: 'rim'; center: Vec3; radius: number };
+
+export interface FloorTop {
+  preset: FloorTopPreset;
+  mass: number;
+  body: RigidBody;
+  features: ContactFeature[];
+  // Tilt at which the spinning top's rim reaches the floor as it leans over on its tip (rad);
+  // the tippe top has no rim
+  rimTilt: number | null;
+}
+
+// The spinning top is a disk of the rotor's size and mass on a massless stem whose tip is
+// `tipLength` below the disk's center
+export const createFloorTop = (preset: FloorTopPreset, rotor: RotorProperties, tipLength: number): FloorTop => {
+  if (preset === 'tippe') {
+    const { mass, radius, offset, capAngle, stemLength, stemRadius, axialInertia, transverseInertia } = TIPPE_TOP;
+    const moment = mass * radius * radius;
+    return {
+      preset,
+      mass,
+      body: createRigidBody(
+        mat3Diagonal([transverseInertia * moment, axialInertia * moment, transverseInertia * moment]),
+      ),
+      features: [
+        { kind: 'sphere', center: [0, offset, 0], radius, cap: Math.cos(capAngle) },
+        { kind: 'sphere', center: [0, offset + stemLength - stemRadius, 0], radius: stemRadius },
+      ],
+      rimTilt: null,
+    };
+  }
+  const { mass, radius, thickness } = rotor;
+  const features: ContactFeature[] = [
+    { kind: 'sphere', center: [0, TIP_RADIUS - tipLength, 0], radius: TIP_RADIUS },
+    { kind: 'rim', center: [0, thickness / 2, 0], radius },
+    { kind: 'rim', center: [0, -thickness / 2, 0], radius },
+  ];
+  return {
+    preset,
+    mass,
+    body: createRigidBody(cylinderInertia(mass, radius, thickness)),
+    features,
+    rimTilt: rimContactTilt(features),
+  };
+};
+
+export interface FloorContactParams {
+  // Coefficient of sliding friction
+  friction: number;
+  // Rolling resistance: torque per unit normal force against rolling and drilling (m)
+  rollingFriction: number;
+  // Rate the floor turns at with the room about the vertical through the origin (rad/s)
+  floorRate: number;
+}
+
+export interface FloorContact {
+  point: Vec3;
+  normalForce: number;
+  // Speed the body slides over the floor at the contact (m/s)
+  slip: number;
+  feature: ContactFeature['kind'];
+}
+
+export interface FloorTopState {
+  // Center of mass and its velocity (world frame)
+  position: Vec3;
+  velocity: Vec3;
+  body: RigidBodyState;
+  // Contacts after the last step, deepest first
+  contacts: FloorContact[];
+  stance: FloorTopStance;
+}
+
+// Contact springs are tuned to this natural frequency with the whole mass on them (Hz), soft
+// enough for the substep and stiff enough that the top sinks in by under a millimeter
+const CONTACT_FREQUENCY = 20;
+const SUBSTEPS = 10;
+// Speeds below which friction and rolling resistance fade out instead of flipping sign
+const SLIP_REGULARIZATION = 0.01;
+const ROLL_REGULARIZATION = 0.05;
+
+const UP: Vec3 = [0, 1, 0];
+
+// Lowest point of a feature and how far it is below the floor, or null if the feature
+// cannot touch the floor there
+const lowestPoint = (feature: ContactFeature, position: Vec3, state: RigidBodyState): Vec3 | null => {
+  const center = add(position, quatRotate(state.orientation, feature.center));
+  if (feature.kind === 'sphere') {
+    if (feature.cap !== undefined && quatRotateInverse(state.orientation, [0, -1, 0])[1] > feature.cap) {
+      return null;
+    }
+    return sub(center, scale(UP, feature.radius));
+  }
+  // Straight down, within the plane of the rim; a rim lying flat touches all round
+  const axis = quatRotate(state.orientation, UP);
+  const down = add(scale(UP, -1), scale(axis, axis[1]));
+  const downLength = length(down);
+  return downLength > 1e-6 ? add(center, scale(down, feature.radius / downLength)) : center;
+};
+
+// Tilt at which the lowest rim comes down to the tip, the first feature, by bisection
+const rimContactTilt = ([tip, ...rims]: ContactFeature[]): number => {
+  const gap = (tilt: number) => {
+    const body: RigidBodyState = { orientation: quatFromAxisAngle([1, 0, 0], tilt), angularVelocity: [0, 0, 0] };
+    const height = (feature: ContactFeature) => lowestPoint(feature, [0, 0, 0], body)?.[1] ?? Infinity;
+    return Math.min(...rims.map(height)) - height(tip);
+  };
+  let low = 0;
+  let high = Math.PI / 2;
+  for (let i = 0; i < 50; i++) {
+    const middle = (low + high) / 2;
+    if (gap(middle) > 0) low = middle;
+    else high = middle;
+  }
+  return low;
+};
+
+// Force and torque (about the center of mass) the floor exerts, world frame
+const floorLoads = (
+  top: FloorTop,
+  position: Vec3,
+  velocity: Vec3,
+  state: RigidBodyState,
+  { friction, rollingFriction, floorRate }: FloorContactParams,
+) => {
+  const stiffness = top.mass * (2 * Math.PI * CONTACT_FREQUENCY) ** 2;
+  const damping = 2 * top.mass * 2 * Math.PI * CONTACT_FREQUENCY;
+  const omega = worldAngularVelocity(state);
+  const floorOmega = scale(UP, floorRate);
+  let force: Vec3 = [0, 0, 0];
+  let torque: Vec3 = [0, 0, 0];
+  const contacts: FloorContact[] = [];
+
+  for (const feature of top.features) {
+    const point = lowestPoint(feature, position, state);
+    if (!point || point[1] >= 0) continue;
+    const arm = sub(point, position);
+    // Velocity of the body point against the floor point under it
+    const relative = sub(add(velocity, cross(omega, arm)), cross(floorOmega, point));
+    const normalForce = Math.max(0, -stiffness * point[1] - damping * relative[1]);
+    const sliding: Vec3 = [relative[0], 0, relative[2]];
+    const slip = length(sliding);
+    const frictionForce = scale(sliding, (-friction * normalForce) / Math.hypot(slip, SLIP_REGULARIZATION));
+    const contactForce = add(scale(UP, normalForce), frictionForce);
+    force = add(force, contactForce);
+    torque = add(torque, cross(arm, contactForce));
+
+    // Rolling resistance against the body's rotation relative to the floor
+    const rolling = sub(omega, floorOmega);
+    torque = add(
+      torque,
+      scale(rolling, (-rollingFriction * normalForce) / Math.hypot(length(rolling), ROLL_REGULARIZATION)),
+    );
+    contacts.push({ point, normalForce, slip, feature: feature.kind });
+  }
+
+  contacts.sort((a, b) => a.point[1] - b.point[1]);
+  return { force, torque, contacts };
+};
+
+export interface FloorTopRelease {
+  // Angle between the symmetry axis and the vertical (rad)
+  tilt: number;
+  // Spin about the symmetry axis (rad/s)
+  spin: number;
+}
+
+// Top standing on the floor at the origin, tilted about world X and spinning about its axis
+export const createFloorTopState = (top: FloorTop, { tilt, spin }: FloorTopRelease): FloorTopState => {
+  const body: RigidBodyState = { orientation: quatFromAxisAngle([1, 0, 0], tilt), angularVelocity: [0, spin, 0] };
+  const heights = top.features
+    .map((feature) => lowestPoint(feature, [0, 0, 0], body))
+    .filter((point): point is Vec3 => point !== null)
+    .map((point) => point[1]);
+  return { position: [0, -Math.min(...heights), 0], velocity: [0, 0, 0], body, contacts: [], stance: 'spinning' };
+};
+
+// Angle of the symmetry axis from the vertical (rad): 0 upright, π upside down
+export const floorTopTilt = (state: FloorTopState): number =>
+  Math.acos(Math.max(-1, Math.min(1, quatRotate(state.body.orientation, UP)[1])));
+
+// What the top is standing on: its tip or ball while it spins, its rim once a spinning top has
+// fallen over, and its stem once a tippe top has turned over
+export type FloorTopStance = 'spinning' | 'fallen' | 'inverted';
+
+// How far back below the rim tilt a fallen top has to come, on its tip, to count as
+// spinning again (rad)
+const STANCE_HYSTERESIS = (5 * Math.PI) / 180;
+
+// A spinning top has fallen once its rim touches the floor, and stays fallen until it is back
+// on its tip well clear of the rim, so rocking on the rim does not flicker between the two. A
+// fallen top often rests on its tip and rim together.
+const nextStance = (top: FloorTop, state: FloorTopState): FloorTopStance => {
+  const tilt = floorTopTilt(state);
+  if (top.rimTilt === null) return tilt > Math.PI / 2 ? 'inverted' : 'spinning';
+  const touching = (feature: ContactFeature['kind']) => state.contacts.some((contact) => contact.feature === feature);
+  if (state.stance === 'fallen') {
+    return touching('sphere') && !touching('rim') && tilt < top.rimTilt - STANCE_HYSTERESIS ? 'spinning' : 'fallen';
+  }
+  return touching('rim') ? 'fallen' : 'spinning';
+};
+
+// Kinetic plus gravitational energy; the contact friction only ever takes it away
+export const floorTopEnergy = (top: FloorTop, state: FloorTopState): number =>
+  0.5 * top.mass * dot(state.velocity, state.velocity) +
+  kineticEnergy(top.body, state.body) +
+  top.mass * GRAVITY * state.position[1];
+
+// One fixed step, split into substeps for the stiff contact: semi-implicit Euler for the
+// center of mass and RK4 for the rotation under the substep's torque
+export const stepFloorTop = (
+  top: FloorTop,
+  state: FloorTopState,
+  params: FloorContactParams,
+  release: FloorTopRelease,
+  dt: number,
+): FloorTopState => {
+  const h = dt / SUBSTEPS;
+  const weight: Vec3 = [0, -top.mass * GRAVITY, 0];
+  let { position, velocity, body } = state;
+  let contacts = state.contacts;
+  for (let i = 0; i < SUBSTEPS; i++) {
+    const loads = floorLoads(top, position, velocity, body, params);
+    contacts = loads.contacts;
+    velocity = add(velocity, scale(add(loads.force, weight), h / top.mass));
+    position = add(position, scale(velocity, h));
+    body = stepRigidBody(top.body, body, h, () => loads.torque, 'rk4');
+  }
+  if (!isFiniteState(body) || ![...position, ...velocity].every(Number.isFinite)) {
+    // The contact blew up: stand the top up again
+    return createFloorTopState(top, release);
+  }
+  const next = { position, velocity, body, contacts, stance: state.stance };
+  return { ...next, stance: nextStance(top, next) };
+};
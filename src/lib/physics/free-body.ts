@@ -0,0 +1,99 @@
+import { Vec3, dot, normalize, quatRotate } from './math';
+import { RigidBody, RigidBodyState, angularMomentum, isFiniteState, kineticEnergy } from './rigid-body';
+import { IntegratorId, stepRigidBody } from './integrators';
+import { ConservedQuantities, Drift, EnergyMomentum, relativeDrift } from './diagnostics';
+
+// Principal axes by the size of their moment. Spin about the minor or the major axis is
+// stable; spin about the intermediate axis is not, and the body periodically flips over
+// (the Dzhanibekov or tennis-racket effect).
+export type PrincipalAxis = 'minor' | 'intermediate' | 'major';
+
+export const PRINCIPAL_AXES: { axis: PrincipalAxis; label: string }[] = [
+  { axis: 'minor', label: 'Minor' },
+  { axis: 'intermediate', label: 'Intermediate' },
+  { axis: 'major', label: 'Major' },
+];
+
+// Body axis (0 = X, 1 = Y, 2 = Z) of a principal axis; the presets have diagonal inertia
+export const principalAxisIndex = (body: RigidBody, axis: PrincipalAxis): number => {
+  const order = [0, 1, 2].sort((a, b) => body.inertia[a * 4] - body.inertia[b * 4]);
+  return order[PRINCIPAL_AXES.findIndex((entry) => entry.axis === axis)];
+};
+
+export interface FreeBodyRun {
+  axis: PrincipalAxis;
+  // Spin about the chosen axis at release (rad/s)
+  spin: number;
+  // Spin about the other two axes at release, as a fraction of `spin`
+  perturbation: number;
+  integrator: IntegratorId;
+}
+
+export interface FreeBodyState {
+  body: RigidBodyState;
+  // Which way the spin axis points along the angular momentum, and how often it turned over
+  side: 1 | -1;
+  flips: number;
+  // Conserved quantities at release, and the drift since
+  reference: ConservedQuantities | null;
+  drift: Drift | null;
+}
+
+export const createFreeBodyState = (body: RigidBody, { axis, spin, perturbation }: FreeBodyRun): FreeBodyState => {
+  const index = principalAxisIndex(body, axis);
+  const angularVelocity = [0, 1, 2].map((i) => (i === index ? spin : perturbation * spin)) as Vec3;
+  return {
+    body: { orientation: [0, 0, 0, 1], angularVelocity },
+    side: spin < 0 ? -1 : 1,
+    flips: 0,
+    reference: null,
+    drift: null,
+  };
+};
+
+// Cosine of the angle between the chosen principal axis and the angular momentum: ±1 while
+// the body spins about it, swinging through 0 as it flips
+export const spinAxisAlignment = (body: RigidBody, state: RigidBodyState, axis: PrincipalAxis): number => {
+  const bodyAxis: Vec3 = [0, 0, 0];
+  bodyAxis[principalAxisIndex(body, axis)] = 1;
+  const momentum = angularMomentum(body, state);
+  return dot(quatRotate(state.orientation, bodyAxis), dot(momentum, momentum) > 0 ? normalize(momentum) : momentum);
+};
+
+// Nothing pulls on a free body, so all of its energy is kinetic
+export const freeBodyEnergyMomentum = (body: RigidBody, state: RigidBodyState): EnergyMomentum => ({
+  kinetic: kineticEnergy(body, state),
+  potential: 0,
+  angularMomentum: angularMomentum(body, state),
+});
+
+// Torque-free motion. `push` is an extra torque on the body (world frame), e.g. from
+// dragging it with the pointer.
+export const stepFreeBody = (
+  rigidBody: RigidBody,
+  state: FreeBodyState,
+  run: FreeBodyRun,
+  dt: number,
+  push: Vec3 = [0, 0, 0],
+): FreeBodyState => {
+  const pushed = push[0] !== 0 || push[1] !== 0 || push[2] !== 0;
+  const body = stepRigidBody(rigidBody, state.body, dt, pushed ? () => push : undefined, run.integrator);
+  if (!isFiniteState(body)) {
+    // The integrator diverged: release the body again
+    return createFreeBodyState(rigidBody, run);
+  }
+
+  // Count a flip once the axis is well past perpendicular to the momentum, so the wobble
+  // around ±90° is not counted
+  const alignment = spinAxisAlignment(rigidBody, body, run.axis);
+  const side = alignment > 0.5 ? 1 : alignment < -0.5 ? -1 : state.side;
+  const flips = state.flips + (side !== state.side ? 1 : 0);
+
+  // A push changes energy and momentum, so drift is measured again once it ends
+  if (pushed) {
+    return { body, side, flips, reference: null, drift: state.drift };
+  }
+  const conserved = { energy: kineticEnergy(rigidBody, body), angularMomentum: angularMomentum(rigidBody, body) };
+  const reference = state.reference ?? conserved;
+  return { body, side, flips, reference, drift: relativeDrift(reference, conserved) };
+};
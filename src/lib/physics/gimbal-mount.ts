@@ -0,0 +1,245 @@
+import { Vec3, add, length, quatRotate } from './math';
+import {
+  RigidBody,
+  RigidBodyState,
+  angularMomentum,
+  createRigidBody,
+  isFiniteState,
+  kineticEnergy,
+} from './rigid-body';
+import { IntegratorId, stepRigidBody } from './integrators';
+import { ConservedQuantities, Drift, EnergyMomentum, relativeDrift } from './diagnostics';
+import {
+  GimbalAngles,
+  GimbalJoints,
+  GimbalReaction,
+  GimbalRingInertia,
+  constrainGimbalMotion,
+  gimbalAnglesForAxis,
+  gimbalAnglesFromOrientation,
+  gimbalOrientations,
+  ringAngularMomentum,
+  ringGeneralizedForce,
+  ringJointMomentum,
+} from './gimbal';
+import { fromBaseFrame, roomOrientation, toBaseFrame } from './rotating-frame';
+import { GimbalRingMasses, RotorProperties, gimbalRingsForRotor, ringInertia, rotorInertia } from './rotor';
+import { servoTorque } from './servo';
+
+// Rate at which the gimbal-lock demo swings the inner ring towards the singularity
+const LOCK_DEMO_RATE = (20 * Math.PI) / 180;
+
+export interface GimbalMount {
+  rotor: RigidBody;
+  rings: GimbalRingInertia;
+}
+
+export const createGimbalMount = (rotor: RotorProperties, ringMasses: GimbalRingMasses): GimbalMount => {
+  const rings = gimbalRingsForRotor(rotor, ringMasses);
+  return {
+    rotor: createRigidBody(rotorInertia(rotor)),
+    rings: { outer: ringInertia(rings.outer), inner: ringInertia(rings.inner) },
+  };
+};
+
+export interface GimbalMountParams {
+  // Spin about the axle (rad/s), used when the motion has to be restarted
+  spin: number;
+  joints: GimbalJoints;
+  // Swing the inner ring until the axle lines up with the outer pivot
+  lockDemo: boolean;
+  integrator: IntegratorId;
+  // Rate the stand turns at with the room about the vertical (rad/s)
+  baseRate: number;
+}
+
+export interface GimbalMountState {
+  // Rotor in the inertial frame; the ring angles and rates are relative to the stand
+  body: RigidBodyState;
+  // Angle the stand has turned through with the room (rad)
+  baseAngle: number;
+  angles: GimbalAngles;
+  // Joint rates after the last step (rad/s); the rings carry momentum of their own
+  rates: GimbalAngles;
+  // Angles locked rings are held at
+  held: { outer: number; inner: number };
+  // Integrated angle error of each servo (rad·s), zero while the joint is not a servo
+  integral: { outer: number; inner: number };
+  reaction: GimbalReaction;
+  // Conserved quantities when the rings were last released, and the same quantities carried
+  // along with only the integrator's own error since
+  reference: ConservedQuantities | null;
+  integrated: ConservedQuantities | null;
+  // Drift of the integrator since the rings were released, and the drift left over from
+  // sharing momentum between the rotor and the rings
+  drift: Drift | null;
+  coupling: Drift | null;
+}
+
+// Rotor spinning about an axle pointed along `axis` (unit vector, stand frame)
+export const createGimbalMountState = (axis: Vec3, spin: number, baseAngle = 0): GimbalMountState => {
+  const angles = gimbalAnglesForAxis(axis);
+  return {
+    body: fromBaseFrame({ orientation: gimbalOrientations(angles).rotor, angularVelocity: [0, spin, 0] }, baseAngle, 0),
+    baseAngle,
+    angles,
+    rates: { outer: 0, inner: 0, spin },
+    held: { outer: angles.outer, inner: angles.inner },
+    integral: { outer: 0, inner: 0 },
+    reaction: { outer: 0, inner: 0 },
+    reference: null,
+    integrated: null,
+    drift: null,
+    coupling: null,
+  };
+};
+
+// Energy of rotor and rings, and the momentum about the outer pivot: the only component the
+// stand cannot change once the rings have mass of their own
+const conservedQuantities = (mount: GimbalMount, body: RigidBodyState, angles: GimbalAngles, rates: GimbalAngles) => {
+  const ringMomentum = ringJointMomentum(mount.rings, angles, rates);
+  const rotorMomentum = angularMomentum(mount.rotor, body);
+  return {
+    energy: kineticEnergy(mount.rotor, body) + 0.5 * (ringMomentum[0] * rates.outer + ringMomentum[1] * rates.inner),
+    angularMomentum: [rotorMomentum[0] + ringMomentum[0], 0, 0] as Vec3,
+  };
+};
+
+// The rotor and the rings turn about the gimbal center, where their centers of mass sit, so
+// gravity does no work on them. The rings' share of the stand's own rotation is left out, as
+// it is from the motion.
+export const gimbalMountEnergyMomentum = (mount: GimbalMount, state: GimbalMountState): EnergyMomentum => {
+  const { body, baseAngle, angles, rates } = state;
+  const ringMomentum = ringJointMomentum(mount.rings, angles, rates);
+  return {
+    kinetic: kineticEnergy(mount.rotor, body) + 0.5 * (ringMomentum[0] * rates.outer + ringMomentum[1] * rates.inner),
+    potential: 0,
+    angularMomentum: add(
+      angularMomentum(mount.rotor, body),
+      quatRotate(roomOrientation(baseAngle), ringAngularMomentum(mount.rings, angles, rates)),
+    ),
+  };
+};
+
+// One fixed step: unconstrained rotor motion, then the ring joints in the frame of the
+// stand. `push` is an extra torque on the rotor (inertial frame), e.g. from dragging the
+// mount with the pointer.
+export const stepGimbalMount = (
+  mount: GimbalMount,
+  state: GimbalMountState,
+  { spin, joints, lockDemo, integrator, baseRate }: GimbalMountParams,
+  dt: number,
+  push: Vec3 = [0, 0, 0],
+): GimbalMountState => {
+  const { rotor, rings } = mount;
+  let reference = state.reference;
+  // Clearing the reference starts both drifts over
+  let integrated = reference && state.integrated;
+
+  // Momentum the rings carry into the step, including the exchange between the two ring
+  // rates as the inner ring's inertia about the outer pivot changes with its angle. The rotor
+  // and rings only share it at the end of the step, which is first order in dt and slowly
+  // bleeds energy out of fast nutation, as the joint locks do, whichever integrator steps the
+  // rotor. That loss is reported as the coupling's drift, apart from the integrator's. The
+  // rings' share of the stand's own rotation is left out.
+  const ringForce = ringGeneralizedForce(rings, state.angles, state.rates);
+  let ringMomentum = ringJointMomentum(rings, state.angles, state.rates).map(
+    (value, j) => value + ringForce[j] * dt,
+  );
+
+  // Servo motors push on their rings about the pivot, from the angles and rates the step
+  // starts with
+  const servos = (['outer', 'inner'] as const).map((name) =>
+    joints[name].mode === 'servo' && !lockDemo
+      ? servoTorque(joints[name].servo, state.angles[name], state.rates[name], state.integral[name], dt)
+      : { torque: 0, integral: 0 },
+  );
+  servos.forEach(({ torque }, j) => {
+    ringMomentum[j] += torque * dt;
+  });
+
+  // Free motion of the rotor: Euler's equations with the selected integrator
+  const pushed = push[0] !== 0 || push[1] !== 0 || push[2] !== 0;
+  const stepped = stepRigidBody(rotor, state.body, dt, pushed ? () => push : undefined, integrator);
+  const baseAngle = state.baseAngle + baseRate * dt;
+  let body = toBaseFrame(stepped, baseAngle, baseRate);
+  if (integrated) {
+    // A free rotor keeps its energy and momentum over the step, so any change is the
+    // integrator's own error
+    const before = angularMomentum(rotor, state.body);
+    const after = angularMomentum(rotor, stepped);
+    integrated = {
+      energy: integrated.energy + kineticEnergy(rotor, stepped) - kineticEnergy(rotor, state.body),
+      angularMomentum: [integrated.angularMomentum[0] + after[0] - before[0], 0, 0],
+    };
+  }
+  if (!isFiniteState(stepped)) {
+    // The integrator diverged: restart from a clean spin about the axle
+    body = { orientation: gimbalOrientations(state.angles).rotor, angularVelocity: [0, spin, 0] };
+    ringMomentum = [0, 0, 0];
+    reference = null;
+    integrated = null;
+  }
+
+  // The rings follow the rotor through the kinematic chain
+  let angles = gimbalAnglesFromOrientation(body.orientation, state.angles);
+
+  // The demo motorizes the inner ring towards +90° while the rotor keeps spinning. A free or
+  // servo-driven outer ring is held meanwhile: otherwise conservation of the momentum about
+  // the outer pivot makes it precess away instead of letting the axle reach the pivot axis.
+  let activeJoints = joints;
+  if (lockDemo) {
+    const remaining = Math.PI / 2 - angles.inner;
+    const rate = Math.sign(remaining) * Math.min(LOCK_DEMO_RATE, Math.abs(remaining) / dt);
+    activeJoints = {
+      outer: joints.outer.mode === 'motorized' ? joints.outer : { ...joints.outer, mode: 'locked' },
+      inner: { ...joints.inner, mode: 'motorized', rate },
+    };
+  }
+
+  // Locked rings are put back exactly where they were held so they do not creep
+  if (activeJoints.outer.mode === 'locked' || activeJoints.inner.mode === 'locked') {
+    angles = {
+      outer: activeJoints.outer.mode === 'locked' ? state.held.outer : angles.outer,
+      inner: activeJoints.inner.mode === 'locked' ? state.held.inner : angles.inner,
+      spin: angles.spin,
+    };
+    body = { ...body, orientation: gimbalOrientations(angles).rotor };
+  }
+
+  const free = activeJoints.outer.mode === 'free' && activeJoints.inner.mode === 'free';
+  const constrained = constrainGimbalMotion(rotor, body, angles, activeJoints, dt, rings, ringMomentum);
+
+  // Energy and momentum are only conserved while nothing holds, drives, pushes or turns the mount
+  let drift: Drift | null = null;
+  let coupling: Drift | null = null;
+  if (free && !pushed && baseRate === 0) {
+    const conserved = conservedQuantities(mount, constrained.state, angles, constrained.rates);
+    const momentumScale = length(angularMomentum(rotor, constrained.state));
+    reference = reference ?? conserved;
+    integrated = integrated ?? conserved;
+    drift = relativeDrift(reference, integrated, momentumScale);
+    coupling = relativeDrift(integrated, conserved, momentumScale);
+  } else {
+    reference = null;
+    integrated = null;
+  }
+
+  return {
+    body: fromBaseFrame(constrained.state, baseAngle, baseRate),
+    baseAngle,
+    angles,
+    rates: constrained.rates,
+    held: state.held,
+    integral: { outer: servos[0].integral, inner: servos[1].integral },
+    // A servo's bearing carries its motor torque
+    reaction: {
+      outer: activeJoints.outer.mode === 'servo' ? servos[0].torque : constrained.reaction.outer,
+      inner: activeJoints.inner.mode === 'servo' ? servos[1].torque : constrained.reaction.inner,
+    },
+    reference,
+    integrated,
+    drift,
+    coupling,
+  };
+};
@@ -0,0 +1,279 @@
+import {
+  Quat,
+  Vec3,
+  add,
+  cross,
+  dot,
+  mat3FromQuat,
+  mat3MulVec,
+  normalize,
+  quatFromAxisAngle,
+  quatMultiply,
+  quatRotate,
+  quatRotateInverse,
+  scale,
+  solveLinear,
+  wrapAngle,
+} from './math';
+import { RigidBody, RigidBodyState } from './rigid-body';
+import { RingInertia } from './rotor';
+import { Servo } from './servo';
+
+// Kinematic chain of the gimbal mount: the outer ring pivots on the stand about the frame
+// X axis, the inner ring pivots inside it about the outer ring's Z axis, and the rotor spins
+// inside that about the inner ring's Y axis. The rotor orientation is therefore the
+// intrinsic X–Z–Y Euler sequence
+//   q = Rx(outer) · Rz(inner) · Ry(spin)
+// which loses a degree of freedom when the axle lines up with the outer pivot (inner = ±90°).
+export const OUTER_GIMBAL_AXIS: Vec3 = [1, 0, 0];
+export const INNER_GIMBAL_AXIS: Vec3 = [0, 0, 1];
+export const ROTOR_SPIN_AXIS: Vec3 = [0, 1, 0];
+export const GIMBAL_EULER_SEQUENCE = 'X–Z–Y';
+
+export interface GimbalAngles {
+  outer: number;
+  inner: number;
+  spin: number;
+}
+
+export interface GimbalAxes {
+  outer: Vec3;
+  inner: Vec3;
+  spin: Vec3;
+}
+
+export const gimbalOrientations = ({ outer, inner, spin }: GimbalAngles) => {
+  const outerRing = quatFromAxisAngle(OUTER_GIMBAL_AXIS, outer);
+  const innerRing = quatMultiply(outerRing, quatFromAxisAngle(INNER_GIMBAL_AXIS, inner));
+  const rotor = quatMultiply(innerRing, quatFromAxisAngle(ROTOR_SPIN_AXIS, spin));
+  return { outerRing, innerRing, rotor };
+};
+
+// Joint axes expressed in the stand (world) frame
+export const gimbalAxes = ({ outer, inner }: GimbalAngles): GimbalAxes => {
+  const outerRing = quatFromAxisAngle(OUTER_GIMBAL_AXIS, outer);
+  const innerRing = quatMultiply(outerRing, quatFromAxisAngle(INNER_GIMBAL_AXIS, inner));
+  return {
+    outer: OUTER_GIMBAL_AXIS,
+    inner: quatRotate(outerRing, INNER_GIMBAL_AXIS),
+    spin: quatRotate(innerRing, ROTOR_SPIN_AXIS),
+  };
+};
+
+// Ring angles that point the axle along `axis` (unit vector, world frame)
+export const gimbalAnglesForAxis = (axis: Vec3): GimbalAngles => ({
+  outer: Math.atan2(axis[2], axis[1]),
+  inner: Math.asin(Math.max(-1, Math.min(1, -axis[0]))),
+  spin: 0,
+});
+
+// Continues `angle` from `previous` so it does not jump by whole turns
+const unwrapNear = (angle: number, previous: number) => previous + wrapAngle(angle - previous);
+
+const angularDistance = (a: GimbalAngles, b: GimbalAngles) =>
+  Math.abs(wrapAngle(a.outer - b.outer)) + Math.abs(wrapAngle(a.inner - b.inner));
+
+// Recovers the ring angles from a rotor orientation. Every orientation has two solutions
+// (outer + π, π − inner, spin + π); the one closest to `previous` is kept so the rings move
+// continuously. At the singularity only outer ± spin is defined, so the outer ring holds still.
+export const gimbalAnglesFromOrientation = (
+  q: Quat,
+  previous: GimbalAngles = { outer: 0, inner: 0, spin: 0 },
+): GimbalAngles => {
+  const m = mat3FromQuat(q);
+  const sinInner = Math.max(-1, Math.min(1, -m[1]));
+  const inner = Math.asin(sinInner);
+
+  if (Math.abs(sinInner) > 0.9999999) {
+    const outer = previous.outer;
+    const spin = sinInner > 0 ? outer + Math.atan2(m[5], m[3]) : Math.atan2(-m[5], -m[3]) - outer;
+    return { outer, inner, spin: unwrapNear(spin, previous.spin) };
+  }
+
+  const outer = Math.atan2(m[7], m[4]);
+  const spin = Math.atan2(m[2], m[0]);
+  const candidates: GimbalAngles[] = [
+    { outer, inner, spin },
+    { outer: outer + Math.PI, inner: wrapAngle(Math.PI - inner), spin: spin + Math.PI },
+  ];
+  const best = angularDistance(candidates[0], previous) <= angularDistance(candidates[1], previous)
+    ? candidates[0]
+    : candidates[1];
+
+  return {
+    outer: unwrapNear(best.outer, previous.outer),
+    inner: best.inner,
+    spin: unwrapNear(best.spin, previous.spin),
+  };
+};
+
+// Rotor angular velocity (world frame) produced by the given joint rates
+export const angularVelocityFromGimbalRates = (angles: GimbalAngles, rates: GimbalAngles): Vec3 => {
+  const axes = gimbalAxes(angles);
+  return add(add(scale(axes.outer, rates.outer), scale(axes.inner, rates.inner)), scale(axes.spin, rates.spin));
+};
+
+// Angular distance from the singularity below which the mount is reported as near / in gimbal lock
+export const GIMBAL_NEAR_LOCK_MARGIN = (15 * Math.PI) / 180;
+export const GIMBAL_LOCK_MARGIN = (2 * Math.PI) / 180;
+
+export type GimbalLockState = 'free' | 'near' | 'locked';
+
+export interface GimbalSingularity {
+  // a_outer · (a_inner × a_spin): ±1 with orthogonal axes, 0 when the axle lines up with the outer pivot
+  determinant: number;
+  // Angle left before the singularity (rad)
+  margin: number;
+  // Direction the mount can no longer rotate about at the singularity, in the world frame
+  lostAxis: Vec3;
+  state: GimbalLockState;
+}
+
+export const gimbalSingularity = (angles: GimbalAngles): GimbalSingularity => {
+  const axes = gimbalAxes(angles);
+  const determinant = dot(axes.outer, cross(axes.inner, axes.spin));
+  const margin = Math.acos(Math.min(1, Math.abs(dot(axes.outer, axes.spin))));
+  return {
+    determinant,
+    margin,
+    lostAxis: normalize(cross(axes.outer, axes.inner)),
+    state: margin < GIMBAL_LOCK_MARGIN ? 'locked' : margin < GIMBAL_NEAR_LOCK_MARGIN ? 'near' : 'free',
+  };
+};
+
+// A motorized joint turns at exactly the commanded rate; a servo joint is free but for the
+// torque its PID controller applies
+export type GimbalJointMode = 'free' | 'locked' | 'motorized' | 'servo';
+
+export interface GimbalJoint {
+  mode: GimbalJointMode;
+  // Commanded joint rate while motorized (rad/s)
+  rate: number;
+  // Target angle, gains and torque limit of the servo
+  servo: Servo;
+}
+
+export interface GimbalJoints {
+  outer: GimbalJoint;
+  inner: GimbalJoint;
+}
+
+// Torque about each ring's pivot axis carried by its lock or motor (N·m)
+export interface GimbalReaction {
+  outer: number;
+  inner: number;
+}
+
+const JOINT_ORDER = ['outer', 'inner', 'spin'] as const;
+
+// Principal moments of the gimbal rings (kg·m²). The outer ring lies in the plane of its
+// pivot axis and the inner ring in the plane of its own, so each pivots about a diameter.
+export interface GimbalRingInertia {
+  outer: RingInertia;
+  inner: RingInertia;
+}
+
+export const MASSLESS_RINGS: GimbalRingInertia = {
+  outer: { symmetric: 0, diametral: 0 },
+  inner: { symmetric: 0, diametral: 0 },
+};
+
+// Kinetic-energy metric of the rings in joint coordinates. The inner ring turns with the
+// outer one, about an axis that tilts from its symmetry axis to a diameter as it swings:
+//   M_ring = diag(D_outer + cos²(inner) S_inner + sin²(inner) D_inner, D_inner, 0)
+export const ringJointInertia = (rings: GimbalRingInertia, angles: GimbalAngles): number[][] => {
+  const c = Math.cos(angles.inner);
+  const s = Math.sin(angles.inner);
+  return [
+    [rings.outer.diametral + c * c * rings.inner.symmetric + s * s * rings.inner.diametral, 0, 0],
+    [0, rings.inner.diametral, 0],
+    [0, 0, 0],
+  ];
+};
+
+// Generalized momentum of the rings, p_ring = M_ring q'
+export const ringJointMomentum = (rings: GimbalRingInertia, angles: GimbalAngles, rates: GimbalAngles): number[] => {
+  const M = ringJointInertia(rings, angles);
+  return [M[0][0] * rates.outer, M[1][1] * rates.inner, 0];
+};
+
+// Angular momentum of the two rings (stand frame). The outer ring turns about a diameter; the
+// inner ring's symmetry axis lies along the outer pivot while it is level.
+export const ringAngularMomentum = (rings: GimbalRingInertia, angles: GimbalAngles, rates: GimbalAngles): Vec3 => {
+  const axes = gimbalAxes(angles);
+  const { innerRing } = gimbalOrientations(angles);
+  const omega = add(scale(axes.outer, rates.outer), scale(axes.inner, rates.inner));
+  const [wx, wy, wz] = quatRotateInverse(innerRing, omega);
+  const inner = quatRotate(innerRing, [
+    rings.inner.symmetric * wx,
+    rings.inner.diametral * wy,
+    rings.inner.diametral * wz,
+  ]);
+  return add(scale(axes.outer, rings.outer.diametral * rates.outer), inner);
+};
+
+// Rate of the rings' generalized momentum, ∂T/∂q: the inner ring's inertia about the outer
+// pivot depends on the inner angle, which couples the two ring rates
+export const ringGeneralizedForce = (rings: GimbalRingInertia, angles: GimbalAngles, rates: GimbalAngles): number[] => [
+  0,
+  rates.outer * rates.outer * Math.sin(angles.inner) * Math.cos(angles.inner) *
+    (rings.inner.diametral - rings.inner.symmetric),
+  0,
+];
+
+// Enforces the ring joints on the rotor velocity after an unconstrained step. The motion is
+// written in joint coordinates q' = (outer', inner', spin'), whose kinetic-energy metric is
+// M = Jᵀ I J + M_ring with J = [a_outer a_inner a_spin]. Prescribed joints take their
+// commanded rate, free joints share the generalized momentum p = Jᵀ I ω + p_ring of rotor
+// and rings, and the generalized impulse needed to do so is the bearing reaction.
+export const constrainGimbalMotion = (
+  body: RigidBody,
+  state: RigidBodyState,
+  angles: GimbalAngles,
+  joints: GimbalJoints,
+  dt: number,
+  rings: GimbalRingInertia = MASSLESS_RINGS,
+  ringMomentum: number[] = [0, 0, 0],
+): { state: RigidBodyState; rates: GimbalAngles; reaction: GimbalReaction } => {
+  const prescribed = JOINT_ORDER.map((name) => (name === 'spin' ? null : joints[name])).map((joint) =>
+    joint?.mode === 'locked' ? 0 : joint?.mode === 'motorized' ? joint.rate : null,
+  );
+
+  const worldAxes = gimbalAxes(angles);
+  const axes = JOINT_ORDER.map((name) => quatRotateInverse(state.orientation, worldAxes[name]));
+  const inertiaAxes = axes.map((axis) => mat3MulVec(body.inertia, axis));
+  const momentum = mat3MulVec(body.inertia, state.angularVelocity);
+  const ringInertia = ringJointInertia(rings, angles);
+  const massless = ringInertia.every((row) => row.every((value) => value === 0));
+  const M = axes.map((a, j) => inertiaAxes.map((Ib, k) => dot(a, Ib) + ringInertia[j][k]));
+  const p = axes.map((a, j) => dot(a, momentum) + ringMomentum[j]);
+
+  // Small regularization keeps the solve defined when free axes line up in gimbal lock
+  const epsilon = 1e-9 * (M[0][0] + M[1][1] + M[2][2]);
+  const free = [0, 1, 2].filter((j) => prescribed[j] === null);
+  const rates = prescribed.map((rate) => rate ?? 0);
+  const solved = solveLinear(
+    free.map((j) => free.map((k) => M[j][k] + (j === k ? epsilon : 0))),
+    free.map((j) => p[j] - [0, 1, 2].reduce((sum, k) => (prescribed[k] === null ? sum : sum + M[j][k] * rates[k]), 0)),
+  );
+  free.forEach((j, i) => {
+    rates[j] = solved[i];
+  });
+
+  // Massless rings cannot act on a rotor they leave free, so it keeps its exact velocity,
+  // unless a servo pushes on them
+  if (massless && prescribed.every((rate) => rate === null) && ringMomentum.every((value) => value === 0)) {
+    return { state, rates: { outer: rates[0], inner: rates[1], spin: rates[2] }, reaction: { outer: 0, inner: 0 } };
+  }
+
+  const angularVelocity = axes.reduce((omega, axis, j) => add(omega, scale(axis, rates[j])), [0, 0, 0] as Vec3);
+  const reaction = [0, 1].map((j) =>
+    prescribed[j] === null ? 0 : (M[j].reduce((sum, m, k) => sum + m * rates[k], 0) - p[j]) / dt,
+  );
+
+  return {
+    state: { orientation: state.orientation, angularVelocity },
+    rates: { outer: rates[0], inner: rates[1], spin: rates[2] },
+    reaction: { outer: reaction[0], inner: reaction[1] },
+  };
+};
@@ -0,0 +1,147 @@
+import { Vec3, add, cross, dot, length, normalize, scale, sub, wrapAngle } from './math';
+
+// Sidereal rotation rate of the Earth (rad/s)
+export const EARTH_RATE = 7.2921e-5;
+
+// Factors the Earth rate can be sped up by, so the compass settles in seconds rather than hours
+export const EARTH_RATE_SCALES = [1, 100, 1000, 10000];
+
+// Heading band around the settled heading the compass counts as settled in (rad)
+export const SETTLE_TOLERANCE = Math.PI / 180;
+
+// Local frame at the compass: x east, y north, z up
+const UP: Vec3 = [0, 0, 1];
+
+export interface GyrocompassParams {
+  // Spin angular momentum of the rotor (N·m·s)
+  momentum: number;
+  // Gravity torque from the bottom-heavy case per unit sine of tilt (N·m)
+  pendulosity: number;
+  // Torque about the vertical per unit sine of tilt, as a fraction of the pendulosity
+  damping: number;
+  // Geographic latitude (rad), north positive
+  latitude: number;
+  // Rotation rate of the Earth, possibly sped up (rad/s)
+  earthRate: number;
+}
+
+export interface GyrocompassState {
+  // Direction the angular momentum points along (unit vector, local frame)
+  axis: Vec3;
+  // Time since release (s)
+  time: number;
+  // Time the heading came within SETTLE_TOLERANCE of the settled heading and stayed there
+  settledAt: number | null;
+  // Heading the axle has turned through since release, counting whole turns (rad)
+  turned: number;
+}
+
+// Heading clockwise from true north and tilt above the horizon of a local-frame direction (rad)
+export const headingOf = (axis: Vec3): number => Math.atan2(axis[0], axis[1]);
+export const tiltOf = (axis: Vec3): number => Math.asin(Math.max(-1, Math.min(1, axis[2])));
+
+// Rotation of the Earth in the local frame
+export const earthRotation = ({ latitude, earthRate }: GyrocompassParams): Vec3 => [
+  0,
+  earthRate * Math.cos(latitude),
+  earthRate * Math.sin(latitude),
+];
+
+// Axle released level, `heading` (rad) clockwise from true north
+export const createGyrocompassState = (heading: number): GyrocompassState => ({
+  axis: [Math.sin(heading), Math.cos(heading), 0],
+  time: 0,
+  settledAt: null,
+  turned: 0,
+});
+
+// Whether the axle has swung all the way round since release without settling. Far from the
+// meridian, at high latitudes with a sped-up Earth rate, it can keep circling for good even
+// where a settled heading exists.
+export const isCircling = (state: GyrocompassState): boolean =>
+  state.settledAt === null && Math.abs(state.turned) >= 2 * Math.PI;
+
+// Rate of the axle direction seen from the turning Earth, in the gyroscopic approximation
+// (the rotor's momentum dwarfs everything else, so nutation is left out). Tilting the axle
+// swings the case's weight out, whose torque about the horizontal makes the axle precess in
+// azimuth towards the meridian; the damping torque about the vertical bleeds off the tilt.
+const axisRate = (params: GyrocompassParams, axis: Vec3): Vec3 => {
+  const { momentum, pendulosity, damping } = params;
+  const sinTilt = axis[2];
+  const across = cross(UP, axis);
+  const acrossLength = length(across);
+  const pendulous: Vec3 = acrossLength > 1e-9 ? scale(across, (pendulosity * sinTilt) / acrossLength) : [0, 0, 0];
+  const torque = add(pendulous, scale(UP, -damping * pendulosity * sinTilt));
+  // Only the torque across the axle turns the momentum; along it, the spin motor takes it up
+  const precession = scale(sub(torque, scale(axis, dot(torque, axis))), 1 / momentum);
+  return sub(precession, cross(earthRotation(params), axis));
+};
+
+// Whether the axle, nudged off `axis`, swings back to it. The rate is linearized on the sphere
+// about `axis` by central differences; the equilibrium is stable and damped when both
+// eigenvalues have negative real parts, that is when the trace is negative and the
+// determinant positive.
+const isSettling = (params: GyrocompassParams, axis: Vec3): boolean => {
+  const across = normalize(cross(UP, axis));
+  const basis = [across, cross(axis, across)];
+  const h = 1e-6;
+  const [[a, b], [c, d]] = basis.map((row) =>
+    basis.map((direction) => {
+      const ahead = axisRate(params, normalize(add(axis, scale(direction, h))));
+      const behind = axisRate(params, normalize(sub(axis, scale(direction, h))));
+      return dot(sub(ahead, behind), row) / (2 * h);
+    }),
+  );
+  return a + d < 0 && a * d - b * c > 0;
+};
+
+// Heading and tilt the compass settles at, or null where it has none: where the damping torque
+// can no longer be balanced (close to the poles, where the horizontal Earth rate the compass
+// seeks fades out), or where the balance is unstable and the axle keeps swinging (at high
+// latitudes with a sped-up Earth rate). The damping makes the axle settle off the meridian, by
+// about damping × tan(latitude): east of north in northern latitudes, west in southern ones.
+export const gyrocompassEquilibrium = (params: GyrocompassParams): { heading: number; tilt: number } | null => {
+  const { momentum, pendulosity, damping, latitude, earthRate } = params;
+  if (momentum <= 0 || pendulosity <= 0) return null;
+  const horizontalRate = momentum * earthRate * Math.cos(latitude);
+  const verticalRate = momentum * earthRate * Math.sin(latitude);
+  const dampingTorque = damping * pendulosity;
+  let heading = 0;
+  let tilt = 0;
+  for (let i = 0; i < 50; i++) {
+    tilt = Math.atan(
+      (verticalRate * Math.cos(heading) + dampingTorque * Math.sin(tilt) ** 2 * Math.sin(heading)) /
+        (pendulosity * Math.cos(heading) + horizontalRate),
+    );
+    const sinHeading = (dampingTorque * Math.sin(tilt) * Math.cos(tilt)) / horizontalRate;
+    if (!(Math.abs(sinHeading) <= 1)) return null;
+    heading = Math.asin(sinHeading);
+  }
+  const axis: Vec3 = [Math.sin(heading) * Math.cos(tilt), Math.cos(heading) * Math.cos(tilt), Math.sin(tilt)];
+  return isSettling(params, axis) ? { heading, tilt } : null;
+};
+
+// One RK4 step of the axle direction, renormalized
+export const stepGyrocompass = (params: GyrocompassParams, state: GyrocompassState, dt: number): GyrocompassState => {
+  if (params.momentum <= 0) {
+    // Without spin the case just hangs where it was left
+    return { ...state, time: state.time + dt };
+  }
+  const { axis } = state;
+  const k1 = axisRate(params, axis);
+  const k2 = axisRate(params, add(axis, scale(k1, dt / 2)));
+  const k3 = axisRate(params, add(axis, scale(k2, dt / 2)));
+  const k4 = axisRate(params, add(axis, scale(k3, dt)));
+  const next = normalize(add(axis, scale(add(add(k1, scale(k2, 2)), add(scale(k3, 2), k4)), dt / 6)));
+
+  const time = state.time + dt;
+  const equilibrium = gyrocompassEquilibrium(params);
+  const settled =
+    equilibrium !== null && Math.abs(wrapAngle(headingOf(next) - equilibrium.heading)) <= SETTLE_TOLERANCE;
+  return {
+    axis: next,
+    time,
+    settledAt: settled ? (state.settledAt ?? time) : null,
+    turned: state.turned + wrapAngle(headingOf(next) - headingOf(axis)),
+  };
+};
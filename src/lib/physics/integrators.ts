@@ -0,0 +1,143 @@
+import {
+  Quat,
+  Vec3,
+  add,
+  cross,
+  dot,
+  mat3MulVec,
+  mat3Skew,
+  quatFromRotationVector,
+  quatMultiply,
+  quatNormalize,
+  quatRotateInverse,
+  scale,
+  solveLinear,
+  sub,
+} from './math';
+import { RigidBody, RigidBodyState, TorqueFn, angularAcceleration } from './rigid-body';
+
+export type IntegratorId = 'euler' | 'rk4' | 'variational' | 'rkmk4';
+
+export const INTEGRATORS: { id: IntegratorId; label: string; description: string }[] = [
+  { id: 'euler', label: 'Explicit Euler', description: 'First order, renormalized quaternion' },
+  { id: 'rk4', label: 'RK4', description: 'Classic Runge-Kutta on the quaternion, renormalized' },
+  { id: 'variational', label: 'Variational', description: 'Symplectic Lie group variational integrator' },
+  { id: 'rkmk4', label: 'RKMK4', description: 'Runge-Kutta-Munthe-Kaas on SO(3), order 4' },
+];
+
+type Integrator = (body: RigidBody, state: RigidBodyState, dt: number, torque: TorqueFn) => RigidBodyState;
+
+const noTorque: TorqueFn = () => [0, 0, 0];
+
+// q' = ½ q ⊗ ω
+const orientationRate = (state: RigidBodyState): Quat => {
+  const w = state.angularVelocity;
+  const spin = quatMultiply(state.orientation, [w[0], w[1], w[2], 0]);
+  return [spin[0] * 0.5, spin[1] * 0.5, spin[2] * 0.5, spin[3] * 0.5];
+};
+
+const advance = (state: RigidBodyState, dq: Quat, dw: Vec3, h: number): RigidBodyState => ({
+  orientation: [
+    state.orientation[0] + dq[0] * h,
+    state.orientation[1] + dq[1] * h,
+    state.orientation[2] + dq[2] * h,
+    state.orientation[3] + dq[3] * h,
+  ],
+  angularVelocity: add(state.angularVelocity, scale(dw, h)),
+});
+
+const explicitEuler: Integrator = (body, state, dt, torque) => {
+  const next = advance(state, orientationRate(state), angularAcceleration(body, state, torque), dt);
+  return { ...next, orientation: quatNormalize(next.orientation) };
+};
+
+const rungeKutta4: Integrator = (body, state, dt, torque) => {
+  const stage = (s: RigidBodyState) => ({ dq: orientationRate(s), dw: angularAcceleration(body, s, torque) });
+  const k1 = stage(state);
+  const k2 = stage(advance(state, k1.dq, k1.dw, dt / 2));
+  const k3 = stage(advance(state, k2.dq, k2.dw, dt / 2));
+  const k4 = stage(advance(state, k3.dq, k3.dw, dt));
+
+  const q = state.orientation.map(
+    (value, i) => value + (dt / 6) * (k1.dq[i] + 2 * k2.dq[i] + 2 * k3.dq[i] + k4.dq[i]),
+  ) as Quat;
+  const w = state.angularVelocity.map(
+    (value, i) => value + (dt / 6) * (k1.dw[i] + 2 * k2.dw[i] + 2 * k3.dw[i] + k4.dw[i]),
+  ) as Vec3;
+
+  return { orientation: quatNormalize(q), angularVelocity: w };
+};
+
+// Lie group variational integrator (Lee, Leok & McClamroch 2005). The relative rotation
+// F = cay(f) over the step solves  a + a × f + (a·f) f − 2 J f = 0  with a = hΠ + ½h²M,
+// then Π' = Fᵀ(Π + ½hM) + ½hM'. Being symplectic, its energy error stays bounded.
+const variational: Integrator = (body, state, dt, torque) => {
+  const J = body.inertia;
+  const momentum = mat3MulVec(J, state.angularVelocity);
+  const bodyTorque = quatRotateInverse(state.orientation, torque(state));
+  const a = add(scale(momentum, dt), scale(bodyTorque, (dt * dt) / 2));
+
+  let f = scale(mat3MulVec(body.inverseInertia, a), 0.5);
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const residual = sub(add(add(a, cross(a, f)), scale(f, dot(a, f))), scale(mat3MulVec(J, f), 2));
+    const skew = mat3Skew(a);
+    const af = dot(a, f);
+    const jacobian = [0, 1, 2].map((row) =>
+      [0, 1, 2].map(
+        (col) => skew[row * 3 + col] + f[row] * a[col] + (row === col ? af : 0) - 2 * J[row * 3 + col],
+      ),
+    );
+    const correction = solveLinear(jacobian, residual) as Vec3;
+    f = sub(f, correction);
+    if (dot(correction, correction) < 1e-28) break;
+  }
+
+  const relative = quatNormalize([f[0], f[1], f[2], 1]);
+  const orientation = quatNormalize(quatMultiply(state.orientation, relative));
+  const carried = quatRotateInverse(relative, add(momentum, scale(bodyTorque, dt / 2)));
+  const nextTorque = quatRotateInverse(orientation, torque({ orientation, angularVelocity: state.angularVelocity }));
+  const nextMomentum = add(carried, scale(nextTorque, dt / 2));
+
+  return { orientation, angularVelocity: mat3MulVec(body.inverseInertia, nextMomentum) };
+};
+
+// Runge-Kutta-Munthe-Kaas: RK4 carried out in the Lie algebra so(3), so the orientation is
+// always updated by an exact rotation. With q = q0 exp(u) the algebra element evolves as
+// u' = dexp⁻¹₋ᵤ(ω) ≈ ω + ½ u × ω + (1/12) u × (u × ω).
+const rkmk4: Integrator = (body, state, dt, torque) => {
+  const q0 = state.orientation;
+  const w0 = state.angularVelocity;
+  const stage = (u: Vec3, w: Vec3) => {
+    const s = { orientation: quatMultiply(q0, quatFromRotationVector(u)), angularVelocity: w };
+    const uw = cross(u, w);
+    return {
+      k: add(add(w, scale(uw, 0.5)), scale(cross(u, uw), 1 / 12)),
+      dw: angularAcceleration(body, s, torque),
+    };
+  };
+
+  const s1 = stage([0, 0, 0], w0);
+  const s2 = stage(scale(s1.k, dt / 2), add(w0, scale(s1.dw, dt / 2)));
+  const s3 = stage(scale(s2.k, dt / 2), add(w0, scale(s2.dw, dt / 2)));
+  const s4 = stage(scale(s3.k, dt), add(w0, scale(s3.dw, dt)));
+
+  const u = scale(add(add(s1.k, scale(add(s2.k, s3.k), 2)), s4.k), dt / 6);
+  const w = add(w0, scale(add(add(s1.dw, scale(add(s2.dw, s3.dw), 2)), s4.dw), dt / 6));
+
+  return { orientation: quatNormalize(quatMultiply(q0, quatFromRotationVector(u))), angularVelocity: w };
+};
+
+const integrators: Record<IntegratorId, Integrator> = {
+  euler: explicitEuler,
+  rk4: rungeKutta4,
+  variational,
+  rkmk4,
+};
+
+export const stepRigidBody = (
+  body: RigidBody,
+  state: RigidBodyState,
+  dt: number,
+  torque: TorqueFn = noTorque,
+  integrator: IntegratorId = 'rk4',
+): RigidBodyState => integrators[integrator](body, state, dt, torque);
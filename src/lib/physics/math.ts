@@ -0,0 +1,262 @@
+// Small allocation-light vector, quaternion and matrix helpers used by the
+// physics code. Quaternions are stored as [x, y, z, w] so they can be handed
+// straight to THREE.Quaternion.fromArray.
+
+export type Vec3 = [number, number, number];
+export type Quat = [number, number, number, number];
+// Row-major 3x3 matrix
+export type Mat3 = [number, number, number, number, number, number, number, number, number];
+
+export const vec3 = (x = 0, y = 0, z = 0): Vec3 => [x, y, z];
+
+export const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+
+export const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+export const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+
+export const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+export const length = (a: Vec3): number => Math.sqrt(dot(a, a));
+
+export const normalize = (a: Vec3): Vec3 => {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : [0, 0, 0];
+};
+
+export const quatIdentity = (): Quat => [0, 0, 0, 1];
+
+export const quatMultiply = (a: Quat, b: Quat): Quat => [
+  a[3] * b[0] + a[0] * b[3] + a[1] * b[2] - a[2] * b[1],
+  a[3] * b[1] - a[0] * b[2] + a[1] * b[3] + a[2] * b[0],
+  a[3] * b[2] + a[0] * b[1] - a[1] * b[0] + a[2] * b[3],
+  a[3] * b[3] - a[0] * b[0] - a[1] * b[1] - a[2] * b[2],
+];
+
+export const quatConjugate = (q: Quat): Quat => [-q[0], -q[1], -q[2], q[3]];
+
+export const quatNormalize = (q: Quat): Quat => {
+  const len = Math.hypot(q[0], q[1], q[2], q[3]);
+  return len > 0 ? [q[0] / len, q[1] / len, q[2] / len, q[3] / len] : quatIdentity();
+};
+
+export const quatFromAxisAngle = (axis: Vec3, angle: number): Quat => {
+  const n = normalize(axis);
+  const s = Math.sin(angle / 2);
+  return [n[0] * s, n[1] * s, n[2] * s, Math.cos(angle / 2)];
+};
+
+// Rotates v by the unit quaternion q (body -> world when q is a body orientation)
+export const quatRotate = (q: Quat, v: Vec3): Vec3 => {
+  const [qx, qy, qz, qw] = q;
+  const tx = 2 * (qy * v[2] - qz * v[1]);
+  const ty = 2 * (qz * v[0] - qx * v[2]);
+  const tz = 2 * (qx * v[1] - qy * v[0]);
+  return [
+    v[0] + qw * tx + (qy * tz - qz * ty),
+    v[1] + qw * ty + (qz * tx - qx * tz),
+    v[2] + qw * tz + (qx * ty - qy * tx),
+  ];
+};
+
+// Rotates v by the inverse of q (world -> body)
+export const quatRotateInverse = (q: Quat, v: Vec3): Vec3 => quatRotate(quatConjugate(q), v);
+
+export const mat3Diagonal = (d: Vec3): Mat3 => [d[0], 0, 0, 0, d[1], 0, 0, 0, d[2]];
+
+export const mat3MulVec = (m: Mat3, v: Vec3): Vec3 => [
+  m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+  m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+  m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+];
+
+export const mat3Inverse = (m: Mat3): Mat3 => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) {
+    throw new Error('Inertia tensor is singular');
+  }
+  const inv = 1 / det;
+  return [
+    A * inv, -(b * i - c * h) * inv, (b * f - c * e) * inv,
+    B * inv, (a * i - c * g) * inv, -(a * f - c * d) * inv,
+    C * inv, -(a * h - b * g) * inv, (a * e - b * d) * inv,
+  ];
+};
+
+// Unit vector from azimuth (measured in the horizontal XZ plane from +X towards +Z) and
+// elevation above that plane, both in radians. Y is up, as in the scene.
+export const directionFromSpherical = (azimuth: number, elevation: number): Vec3 => [
+  Math.cos(elevation) * Math.cos(azimuth),
+  Math.sin(elevation),
+  Math.cos(elevation) * Math.sin(azimuth),
+];
+
+export const sphericalFromDirection = (v: Vec3): { azimuth: number; elevation: number } => {
+  const n = normalize(v);
+  return {
+    azimuth: Math.atan2(n[2], n[0]),
+    elevation: Math.asin(Math.max(-1, Math.min(1, n[1]))),
+  };
+};
+
+// Shortest-arc rotation taking unit vector `from` onto unit vector `to`
+export const quatFromUnitVectors = (from: Vec3, to: Vec3): Quat => {
+  const d = dot(from, to);
+  if (d < -1 + 1e-9) {
+    // Opposite vectors: rotate half a turn about any axis perpendicular to `from`
+    const perpendicular = Math.abs(from[0]) < 0.9 ? cross(from, [1, 0, 0]) : cross(from, [0, 1, 0]);
+    return quatFromAxisAngle(perpendicular, Math.PI);
+  }
+  const c = cross(from, to);
+  return quatNormalize([c[0], c[1], c[2], 1 + d]);
+};
+
+export const mat3FromQuat = (q: Quat): Mat3 => {
+  const [x, y, z, w] = q;
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w),
+    2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w),
+    2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y),
+  ];
+};
+
+// Euler angle sequences: three turns, each about an axis of the frame as already turned
+// (intrinsic). Tait–Bryan sequences turn about all three axes; proper Euler sequences come
+// back to the first.
+export type EulerSequence = 'XYZ' | 'XZY' | 'YXZ' | 'YZX' | 'ZXY' | 'ZYX' | 'XYX' | 'XZX' | 'YXY' | 'YZY' | 'ZXZ' | 'ZYZ';
+
+export const EULER_SEQUENCES: EulerSequence[] = [
+  'XYZ', 'XZY', 'YXZ', 'YZX', 'ZXY', 'ZYX', 'XYX', 'XZX', 'YXY', 'YZY', 'ZXZ', 'ZYZ',
+];
+
+const AXIS_INDEX = { X: 0, Y: 1, Z: 2 } as const;
+const BASIS: Vec3[] = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+export const quatFromEulerAngles = (angles: Vec3, sequence: EulerSequence): Quat =>
+  angles.reduce<Quat>(
+    (q, angle, n) => quatMultiply(q, quatFromAxisAngle(BASIS[AXIS_INDEX[sequence[n]]], angle)),
+    [0, 0, 0, 1],
+  );
+
+// Angles of `sequence` giving the rotation q, the inverse of quatFromEulerAngles. The middle
+// angle stays within ±90° (Tait–Bryan) or 0..180° (proper Euler). Where it reaches the end of
+// that range the first and last axes line up and only their combined turn is known, which
+// is all given to the first angle.
+export const eulerAnglesFromQuat = (q: Quat, sequence: EulerSequence): Vec3 => {
+  const m = mat3FromQuat(q);
+  const at = (row: number, col: number) => m[3 * row + col];
+  const i = AXIS_INDEX[sequence[0]];
+  const j = AXIS_INDEX[sequence[1]];
+  const proper = sequence[2] === sequence[0];
+  const k = 3 - i - j;
+  // +1 when i, j, k run in cyclic order (X, Y, Z or Y, Z, X or Z, X, Y)
+  const s = (j - i + 3) % 3 === 1 ? 1 : -1;
+
+  // Sine of the middle angle (proper) or its cosine (Tait–Bryan), zero where the axes line up
+  const off = proper ? Math.hypot(at(i, j), at(i, k)) : Math.hypot(at(i, i), at(i, j));
+  const middle = proper ? Math.atan2(off, at(i, i)) : Math.atan2(s * at(i, k), off);
+  if (off < 1e-9) {
+    return [Math.atan2(s * at(k, j), at(j, j)), middle, 0];
+  }
+  return proper
+    ? [Math.atan2(at(j, i), -s * at(k, i)), middle, Math.atan2(at(i, j), s * at(i, k))]
+    : [Math.atan2(-s * at(j, k), at(k, k)), middle, Math.atan2(-s * at(i, j), at(i, i))];
+};
+
+// Rotation by intrinsic yaw about Y, then pitch about the new Z and roll about the newest X
+// (Y is up, as in the scene)
+export const quatFromYawPitchRoll = (angles: Vec3): Quat => quatFromEulerAngles(angles, 'YZX');
+
+// [yaw, pitch, roll] of the rotation q, the inverse of quatFromYawPitchRoll
+export const yawPitchRollFromQuat = (q: Quat): Vec3 => eulerAnglesFromQuat(q, 'YZX');
+
+// Unit axis and angle (0..π) of the rotation q; about +X when there is no rotation
+export const axisAngleFromQuat = (q: Quat): { axis: Vec3; angle: number } => {
+  const sign = q[3] < 0 ? -1 : 1;
+  const v: Vec3 = [sign * q[0], sign * q[1], sign * q[2]];
+  const sine = length(v);
+  return {
+    axis: sine < 1e-12 ? [1, 0, 0] : scale(v, 1 / sine),
+    angle: 2 * Math.atan2(sine, Math.abs(q[3])),
+  };
+};
+
+// Wraps an angle into (-π, π]
+export const wrapAngle = (angle: number): number => {
+  const wrapped = angle - 2 * Math.PI * Math.floor((angle + Math.PI) / (2 * Math.PI));
+  return wrapped === -Math.PI ? Math.PI : wrapped;
+};
+
+// Solves A x = b for a small dense system by Gaussian elimination with partial pivoting
+export const solveLinear = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) {
+      throw new Error('Linear system is singular');
+    }
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+// Unit quaternion for the rotation vector u (axis scaled by angle), i.e. exp(u) on SO(3)
+export const quatFromRotationVector = (u: Vec3): Quat => {
+  const angle = length(u);
+  if (angle < 1e-8) {
+    return quatNormalize([u[0] / 2, u[1] / 2, u[2] / 2, 1]);
+  }
+  return quatFromAxisAngle(u, angle);
+};
+
+export const mat3Skew = (v: Vec3): Mat3 => [0, -v[2], v[1], v[2], 0, -v[0], -v[1], v[0], 0];
+
+export const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+// Spherical interpolation along the shorter arc between unit quaternions
+export const quatSlerp = (a: Quat, b: Quat, t: number): Quat => {
+  let cosHalf = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  const target: Quat = cosHalf < 0 ? [-b[0], -b[1], -b[2], -b[3]] : b;
+  cosHalf = Math.abs(cosHalf);
+  if (cosHalf > 0.9995) {
+    return quatNormalize([lerp(a[0], target[0], t), lerp(a[1], target[1], t), lerp(a[2], target[2], t), lerp(a[3], target[3], t)]);
+  }
+  const half = Math.acos(cosHalf);
+  const s = Math.sin(half);
+  const wa = Math.sin((1 - t) * half) / s;
+  const wb = Math.sin(t * half) / s;
+  return [
+    a[0] * wa + target[0] * wb,
+    a[1] * wa + target[1] * wb,
+    a[2] * wa + target[2] * wb,
+    a[3] * wa + target[3] * wb,
+  ];
+};
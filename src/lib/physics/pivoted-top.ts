@@ -0,0 +1,191 @@
+import { Quat, Vec3, add, cross, quatFromAxisAngle, quatRotate, wrapAngle } from './math';
+import {
+  RigidBody,
+  RigidBodyState,
+  TorqueFn,
+  angularMomentum,
+  createRigidBody,
+  isFiniteState,
+  kineticEnergy,
+  parallelAxisInertia,
+} from './rigid-body';
+import { IntegratorId, stepRigidBody } from './integrators';
+import { ConservedQuantities, Drift, EnergyMomentum, relativeDrift } from './diagnostics';
+import { RotorProperties, rotorInertia } from './rotor';
+
+export const GRAVITY = 9.81;
+
+export interface PivotedTopParams extends RotorProperties {
+  // Distance from the pivot to the center of mass along the symmetry axis (m)
+  pivotOffset: number;
+}
+
+export interface PivotedTop {
+  params: PivotedTopParams;
+  body: RigidBody;
+  torque: TorqueFn;
+}
+
+// A rotor whose axle rests on a fixed pivot. The body is integrated about the pivot, so its
+// inertia picks up the parallel-axis term and gravity acts through the offset center of mass.
+export const createPivotedTop = (params: PivotedTopParams): PivotedTop => {
+  const { mass, pivotOffset } = params;
+  const centerOfMass: Vec3 = [0, pivotOffset, 0];
+  const body = createRigidBody(parallelAxisInertia(rotorInertia(params), mass, centerOfMass));
+  const weight: Vec3 = [0, -mass * GRAVITY, 0];
+  const torque: TorqueFn = (state) => cross(quatRotate(state.orientation, centerOfMass), weight);
+  return { params, body, torque };
+};
+
+// Axle tilted away from vertical by `tilt` (rad) about the world X axis, spinning at `spin` rad/s
+export const initialTopState = (tilt: number, spin: number): RigidBodyState => ({
+  orientation: quatFromAxisAngle([1, 0, 0], tilt),
+  angularVelocity: [0, spin, 0],
+});
+
+// Potential energy is measured from the height of the pivot
+export const topEnergyMomentum = (top: PivotedTop, state: RigidBodyState): EnergyMomentum => {
+  const { mass, pivotOffset } = top.params;
+  const height = quatRotate(state.orientation, [0, pivotOffset, 0])[1];
+  return {
+    kinetic: kineticEnergy(top.body, state),
+    potential: mass * GRAVITY * height,
+    angularMomentum: angularMomentum(top.body, state),
+  };
+};
+
+// Gravity only torques the top about horizontal axes, so the total energy and the vertical
+// component of the angular momentum about the pivot are conserved.
+export const topConservedQuantities = (top: PivotedTop, state: RigidBodyState): ConservedQuantities => {
+  const { kinetic, potential, angularMomentum: momentum } = topEnergyMomentum(top, state);
+  return { energy: kinetic + potential, angularMomentum: [0, momentum[1], 0] };
+};
+
+// Steady precession of a symmetric top: the axle circles the vertical at a constant tilt θ
+// while the top spins at ω₃ about it. Balancing gravity's torque against the turning of the
+// angular momentum about the pivot gives I₁ cos θ Ω² − I₃ω₃ Ω + mgr = 0, with I₁ and I₃ the
+// transverse and axial moments about the pivot and r the distance out to the center of mass.
+// Rates are in rad/s, positive about +Y.
+export interface SteadyPrecession {
+  // Gyroscopic approximation Ω ≈ mgr / (I₃ω₃), dropping the Ω² term
+  approximate: number;
+  // Exact roots, or null when the top spins too slowly to precess steadily at this tilt. A
+  // top released from rest nutates about the slow root.
+  slow: number | null;
+  fast: number | null;
+  // Whether the two transverse moments agree, as the formula assumes
+  symmetric: boolean;
+}
+
+// Relative difference of the transverse moments up to which the top counts as symmetric
+const SYMMETRY_TOLERANCE = 0.01;
+
+// Null without spin, when gravity topples the top rather than turning it
+export const steadyPrecession = (top: PivotedTop, tilt: number, spin: number): SteadyPrecession | null => {
+  if (spin === 0) return null;
+  const { mass, pivotOffset } = top.params;
+  const { inertia } = top.body;
+  const transverse = (inertia[0] + inertia[8]) / 2;
+  const axialMomentum = inertia[4] * spin;
+  const weightTorque = mass * GRAVITY * pivotOffset;
+  const quadratic = transverse * Math.cos(tilt);
+  const discriminant = axialMomentum * axialMomentum - 4 * quadratic * weightTorque;
+  const approximate = weightTorque / axialMomentum;
+  const symmetric = Math.abs(inertia[0] - inertia[8]) <= SYMMETRY_TOLERANCE * transverse;
+  if (discriminant < 0) return { approximate, slow: null, fast: null, symmetric };
+  // Both roots from q = (I₃ω₃ ± √Δ) / 2, with the sign that avoids cancellation, so the slow
+  // root stays accurate when the Ω² term is small
+  const q = (axialMomentum + Math.sign(axialMomentum) * Math.sqrt(discriminant)) / 2;
+  return { approximate, slow: weightTorque / q, fast: quadratic !== 0 ? q / quadratic : null, symmetric };
+};
+
+// Axle direction (world frame) as its azimuth about the vertical and its tilt from it
+const axleDirection = (orientation: Quat) => {
+  const axle = quatRotate(orientation, [0, 1, 0]);
+  return { azimuth: Math.atan2(axle[0], axle[2]), tilt: Math.acos(Math.max(-1, Math.min(1, axle[1]))) };
+};
+
+// How far the axle has turned about the vertical over a stretch of free motion, from which the
+// simulated precession rate is read. Averaging over the stretch smooths out the nutation.
+export interface PrecessionWindow {
+  // Angle turned through (rad)
+  angle: number;
+  // Integral of the tilt over the stretch (rad·s), for the mean tilt
+  tiltIntegral: number;
+  // Length of the stretch (s)
+  time: number;
+}
+
+export const EMPTY_PRECESSION_WINDOW: PrecessionWindow = { angle: 0, tiltIntegral: 0, time: 0 };
+
+// Shortest stretch the rate is read over, covering a few nutations at the slider's spin rates (s)
+const MIN_PRECESSION_WINDOW = 2;
+
+// Tilt below which the axle is taken as upright (rad). Its azimuth is undefined there, so the
+// window starts over rather than reading precession from noise.
+const MIN_PRECESSION_TILT = Math.PI / 180;
+
+// Mean precession rate (rad/s) and tilt (rad) over the window, or null while it is too short
+export const measuredPrecession = (window: PrecessionWindow): { rate: number; tilt: number } | null =>
+  window.time < MIN_PRECESSION_WINDOW
+    ? null
+    : { rate: window.angle / window.time, tilt: window.tiltIntegral / window.time };
+
+export interface PivotedTopRun {
+  // Release angle of the axle from the vertical (rad)
+  initialTilt: number;
+  // Spin about the axle at release (rad/s)
+  spin: number;
+  integrator: IntegratorId;
+}
+
+export interface PivotedTopState {
+  body: RigidBodyState;
+  // Conserved quantities at release, and the drift since
+  reference: ConservedQuantities | null;
+  drift: Drift | null;
+  // Measured since release, or since the spin or a push last changed the motion
+  precession: PrecessionWindow;
+}
+
+export const createPivotedTopState = ({ initialTilt, spin }: PivotedTopRun): PivotedTopState => ({
+  body: initialTopState(initialTilt, spin),
+  reference: null,
+  drift: null,
+  precession: EMPTY_PRECESSION_WINDOW,
+});
+
+// `push` is an extra torque on the top (world frame), e.g. from dragging it with the pointer
+export const stepPivotedTop = (
+  top: PivotedTop,
+  state: PivotedTopState,
+  run: PivotedTopRun,
+  dt: number,
+  push: Vec3 = [0, 0, 0],
+): PivotedTopState => {
+  const pushed = push[0] !== 0 || push[1] !== 0 || push[2] !== 0;
+  const torque: TorqueFn = pushed ? (s) => add(top.torque(s), push) : top.torque;
+  const body = stepRigidBody(top.body, state.body, dt, torque, run.integrator);
+  if (!isFiniteState(body)) {
+    // The integrator diverged: release the top again
+    return createPivotedTopState(run);
+  }
+
+  // A push changes energy and momentum, so drift and precession are measured again once it ends
+  if (pushed) {
+    return { body, reference: null, drift: state.drift, precession: EMPTY_PRECESSION_WINDOW };
+  }
+  const conserved = topConservedQuantities(top, body);
+  const reference = state.reference ?? conserved;
+  const before = axleDirection(state.body.orientation);
+  const after = axleDirection(body.orientation);
+  const precession: PrecessionWindow =
+    Math.min(before.tilt, after.tilt) < MIN_PRECESSION_TILT
+      ? EMPTY_PRECESSION_WINDOW
+      : {
+          angle: state.precession.angle + wrapAngle(after.azimuth - before.azimuth),
+          tiltIntegral: state.precession.tiltIntegral + ((before.tilt + after.tilt) / 2) * dt,
+          time: state.precession.time + dt,
+        };
+  return { body, reference, drift: relativeDrift(reference, conserved), precession };
+};
@@ -0,0 +1,34 @@
+import { Vec3, length, scale } from './math';
+import { RigidBody, RigidBodyState, angularMomentum, kineticEnergy, worldAngularVelocity } from './rigid-body';
+
+// Poinsot's construction of torque-free motion. The inertia ellipsoid, scaled to the energy
+// ellipsoid ωᵀIω = 2T and fixed in the body about its center of mass, rolls without slipping
+// on the invariable plane: fixed in space, perpendicular to the angular momentum L, at 2T/|L|
+// from the center. The two touch at the angular velocity ω, which traces the polhode on the
+// ellipsoid and the herpolhode on the plane. Lengths in the construction are angular
+// velocities (rad/s).
+export interface PoinsotConstruction {
+  // Semi-axes of the ellipsoid along body X, Y and Z (the presets have diagonal inertia)
+  semiAxes: Vec3;
+  // Normal of the invariable plane, along the angular momentum (world frame)
+  normal: Vec3;
+  distance: number;
+  // Point of contact on the ellipsoid (body frame) and on the plane (world frame)
+  bodyContact: Vec3;
+  worldContact: Vec3;
+}
+
+// Null for a body at rest, which has no ellipsoid to roll
+export const poinsotConstruction = (body: RigidBody, state: RigidBodyState): PoinsotConstruction | null => {
+  const energy = kineticEnergy(body, state);
+  const momentum = angularMomentum(body, state);
+  const magnitude = length(momentum);
+  if (energy <= 0 || magnitude === 0) return null;
+  return {
+    semiAxes: [0, 4, 8].map((i) => Math.sqrt((2 * energy) / body.inertia[i])) as Vec3,
+    normal: scale(momentum, 1 / magnitude),
+    distance: (2 * energy) / magnitude,
+    bodyContact: state.angularVelocity,
+    worldContact: worldAngularVelocity(state),
+  };
+};
@@ -0,0 +1,156 @@
+import {
+  Quat,
+  Vec3,
+  add,
+  cross,
+  mat3MulVec,
+  normalize,
+  quatConjugate,
+  quatMultiply,
+  scale,
+  solveLinear,
+  yawPitchRollFromQuat,
+} from './math';
+import { RigidBody, RigidBodyState, isFiniteState } from './rigid-body';
+import { pyramidAxis, stepSpacecraftBody } from './spacecraft';
+
+// Reaction wheels: wheels fixed in the spacecraft whose motors speed them up or slow them
+// down. The torque on a wheel comes back on the bus, so the bus turns the other way; a
+// wheel that has reached its top speed can take no more and the bus is left uncontrolled
+// about its axis.
+
+// Spin inertia of each wheel (kg·m²) and the most torque its motor gives (N·m)
+export const WHEEL_INERTIA = 0.02;
+export const MAX_WHEEL_TORQUE = 1;
+
+// Three wheels square to each other, with a fourth skewed equally to all three, or wheels on
+// the sides of a pyramid round body +Y
+export type WheelLayout = 'orthogonal' | 'pyramid';
+
+export const WHEEL_LAYOUTS: { layout: WheelLayout; label: string }[] = [
+  { layout: 'orthogonal', label: 'Orthogonal' },
+  { layout: 'pyramid', label: 'Pyramid' },
+];
+
+// Colors the wheels are told apart by, in the scene and in the speed traces
+export const WHEEL_COLORS = ['#EF4444', '#3B82F6', '#10B981', '#F59E0B'];
+
+export const wheelAxes = (layout: WheelLayout, count: number): Vec3[] => {
+  if (layout === 'pyramid') {
+    return Array.from({ length: count }, (_, i) => pyramidAxis((2 * Math.PI * i) / count));
+  }
+  const axes: Vec3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1], normalize([1, 1, 1])];
+  return axes.slice(0, count);
+};
+
+// PD acts on each yaw, pitch and roll error on its own, like three separate single-axis
+// loops: fine for small errors, roundabout for large slews. Quaternion feedback turns about
+// the single axis between the two attitudes (the eigenaxis), the shorter way round, and
+// cancels the gyroscopic coupling of the spinning bus and wheels.
+export type AttitudeController = 'pd' | 'quaternion';
+
+export const ATTITUDE_CONTROLLERS: { controller: AttitudeController; label: string }[] = [
+  { controller: 'pd', label: 'PD' },
+  { controller: 'quaternion', label: 'Quaternion Feedback' },
+];
+
+// Damping ratio of the closed loop
+const DAMPING_RATIO = 0.7;
+
+export interface ReactionWheelParams {
+  axes: Vec3[];
+  // Wheel speed limit (rad/s)
+  maxSpeed: number;
+  controller: AttitudeController;
+  // Natural frequency of the closed loop (rad/s)
+  bandwidth: number;
+  target: Quat;
+}
+
+export interface ReactionWheelState {
+  body: RigidBodyState;
+  // Speed of each wheel relative to the bus (rad/s)
+  wheelSpeeds: number[];
+}
+
+// Spacecraft at rest in its starting attitude with the wheels stopped
+export const createReactionWheelState = (count: number): ReactionWheelState => ({
+  body: { orientation: [0, 0, 0, 1], angularVelocity: [0, 0, 0] },
+  wheelSpeeds: new Array<number>(count).fill(0),
+});
+
+// Momentum stored in the wheels (body frame)
+export const wheelMomentum = (axes: Vec3[], speeds: number[]): Vec3 =>
+  axes.reduce<Vec3>((total, axis, i) => add(total, scale(axis, WHEEL_INERTIA * speeds[i])), [0, 0, 0]);
+
+// Attitude relative to the target (body frame)
+export const attitudeError = (state: RigidBodyState, target: Quat): Quat =>
+  quatMultiply(quatConjugate(target), state.orientation);
+
+// Angle left to turn through to reach the target (rad)
+export const attitudeErrorAngle = (state: RigidBodyState, target: Quat): number =>
+  2 * Math.acos(Math.min(1, Math.abs(attitudeError(state, target)[3])));
+
+// Rate the wheels should take up momentum at (body frame), which is the torque the bus feels
+// with its sign flipped. The gains are set from the bus's inertia about each axis, so every
+// axis responds at the chosen bandwidth.
+const commandedMomentumRate = (
+  bus: RigidBody,
+  { body }: ReactionWheelState,
+  momentum: Vec3,
+  { controller, bandwidth, target }: ReactionWheelParams,
+): Vec3 => {
+  const inertia: Vec3 = [bus.inertia[0], bus.inertia[4], bus.inertia[8]];
+  const stiffness = scale(inertia, bandwidth * bandwidth);
+  const damping = scale(inertia, 2 * DAMPING_RATIO * bandwidth);
+  const w = body.angularVelocity;
+  const error = attitudeError(body, target);
+  let angles: Vec3;
+  if (controller === 'pd') {
+    // Yaw about Y, pitch about Z and roll about X
+    const [yaw, pitch, roll] = yawPitchRollFromQuat(error);
+    angles = [roll, yaw, pitch];
+  } else {
+    const sign = error[3] < 0 ? -1 : 1;
+    angles = [2 * sign * error[0], 2 * sign * error[1], 2 * sign * error[2]];
+  }
+  const feedback: Vec3 = [0, 1, 2].map((i) => stiffness[i] * angles[i] + damping[i] * w[i]) as Vec3;
+  if (controller === 'pd') return feedback;
+  return add(feedback, scale(cross(w, add(mat3MulVec(bus.inertia, w), momentum)), -1));
+};
+
+// Motor torques giving `momentumRate` with the least total effort (the pseudo-inverse of the
+// wheel axes), scaled back together if one would exceed its motor's limit. A wheel at its
+// speed limit is not driven any further.
+const wheelTorques = (axes: Vec3[], speeds: number[], momentumRate: Vec3, maxSpeed: number): number[] => {
+  // τ = Aᵀ (A Aᵀ)⁻¹ ḣ for the 3×N matrix A of wheel axes
+  const gram = [0, 1, 2].map((row) => [0, 1, 2].map((col) => axes.reduce((sum, a) => sum + a[row] * a[col], 0)));
+  const y = solveLinear(gram, momentumRate) as Vec3;
+  let torques = axes.map((axis) => axis[0] * y[0] + axis[1] * y[1] + axis[2] * y[2]);
+  const largest = Math.max(...torques.map(Math.abs));
+  if (largest > MAX_WHEEL_TORQUE) torques = torques.map((torque) => (torque * MAX_WHEEL_TORQUE) / largest);
+  return torques.map((torque, i) => (Math.abs(speeds[i]) >= maxSpeed && torque * speeds[i] > 0 ? 0 : torque));
+};
+
+// One step: the controller sets the motor torques at the start of the step and holds them.
+// The wheel momentum is taken at the middle of the step.
+export const stepReactionWheels = (
+  bus: RigidBody,
+  state: ReactionWheelState,
+  params: ReactionWheelParams,
+  dt: number,
+): ReactionWheelState => {
+  const { axes, maxSpeed } = params;
+  const momentum = wheelMomentum(axes, state.wheelSpeeds);
+  const torques = wheelTorques(axes, state.wheelSpeeds, commandedMomentumRate(bus, state, momentum, params), maxSpeed);
+  const middle = state.wheelSpeeds.map((speed, i) => speed + (torques[i] * dt) / (2 * WHEEL_INERTIA));
+  const momentumRate = axes.reduce<Vec3>((total, axis, i) => add(total, scale(axis, torques[i])), [0, 0, 0]);
+  const body = stepSpacecraftBody(bus, state.body, dt, wheelMomentum(axes, middle), momentumRate);
+  if (!isFiniteState(body)) {
+    return createReactionWheelState(axes.length);
+  }
+  const wheelSpeeds = state.wheelSpeeds.map((speed, i) =>
+    Math.max(-maxSpeed, Math.min(maxSpeed, speed + (torques[i] * dt) / WHEEL_INERTIA)),
+  );
+  return { body, wheelSpeeds };
+};
@@ -0,0 +1,76 @@
+import {
+  Mat3,
+  Quat,
+  Vec3,
+  cross,
+  dot,
+  mat3Diagonal,
+  mat3Inverse,
+  mat3MulVec,
+  quatRotate,
+  quatRotateInverse,
+  sub,
+} from './math';
+
+export interface RigidBody {
+  // Inertia tensor about the center of mass, expressed in the body frame
+  inertia: Mat3;
+  inverseInertia: Mat3;
+}
+
+export interface RigidBodyState {
+  orientation: Quat;
+  // Angular velocity in the body frame (rad/s)
+  angularVelocity: Vec3;
+}
+
+// External torque in the world frame (N·m)
+export type TorqueFn = (state: RigidBodyState) => Vec3;
+
+export const createRigidBody = (inertia: Mat3): RigidBody => ({
+  inertia,
+  inverseInertia: mat3Inverse(inertia),
+});
+
+// Solid cylinder with its symmetry axis along local Y, matching THREE.CylinderGeometry
+export const cylinderInertia = (mass: number, radius: number, height: number): Mat3 => {
+  const axial = 0.5 * mass * radius * radius;
+  const transverse = (mass * (3 * radius * radius + height * height)) / 12;
+  return mat3Diagonal([transverse, axial, transverse]);
+};
+
+// Solid box with edges of the given lengths along local X, Y and Z
+export const boxInertia = (mass: number, [x, y, z]: Vec3): Mat3 =>
+  mat3Diagonal([(mass * (y * y + z * z)) / 12, (mass * (x * x + z * z)) / 12, (mass * (x * x + y * y)) / 12]);
+
+// Euler's equations in the body frame: I ω' = τ − ω × (I ω)
+export const angularAcceleration = (body: RigidBody, state: RigidBodyState, torque: TorqueFn): Vec3 => {
+  const w = state.angularVelocity;
+  const bodyTorque = quatRotateInverse(state.orientation, torque(state));
+  return mat3MulVec(body.inverseInertia, sub(bodyTorque, cross(w, mat3MulVec(body.inertia, w))));
+};
+
+export const worldAngularVelocity = (state: RigidBodyState): Vec3 =>
+  quatRotate(state.orientation, state.angularVelocity);
+
+export const angularMomentum = (body: RigidBody, state: RigidBodyState): Vec3 =>
+  quatRotate(state.orientation, mat3MulVec(body.inertia, state.angularVelocity));
+
+export const kineticEnergy = (body: RigidBody, state: RigidBodyState): number =>
+  0.5 * dot(state.angularVelocity, mat3MulVec(body.inertia, state.angularVelocity));
+
+// Parallel-axis theorem: inertia about a point displaced by `offset` from the center of mass
+export const parallelAxisInertia = (inertia: Mat3, mass: number, offset: Vec3): Mat3 => {
+  const d2 = dot(offset, offset);
+  const result = [...inertia] as Mat3;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result[row * 3 + col] += mass * ((row === col ? d2 : 0) - offset[row] * offset[col]);
+    }
+  }
+  return result;
+};
+
+// An unstable integrator can blow the state up; callers restart the motion when this fails
+export const isFiniteState = (state: RigidBodyState): boolean =>
+  state.orientation.every(Number.isFinite) && state.angularVelocity.every(Number.isFinite);
@@ -0,0 +1,48 @@
+import {
+  Quat,
+  Vec3,
+  add,
+  cross,
+  quatConjugate,
+  quatFromAxisAngle,
+  quatMultiply,
+  quatRotateInverse,
+  scale,
+  sub,
+} from './math';
+import { RigidBodyState } from './rigid-body';
+
+// The room turns about the vertical axis through the world origin
+export const ROOM_AXIS: Vec3 = [0, 1, 0];
+
+export const roomOrientation = (angle: number): Quat => quatFromAxisAngle(ROOM_AXIS, angle);
+
+// Fictitious accelerations seen in the room frame for a point at `position` moving with
+// `velocity`, both measured in the inertial frame: centrifugal −Ω × (Ω × r) and Coriolis
+// −2 Ω × v_rel with v_rel = v − Ω × r the velocity relative to the room. Since Ω lies along
+// the room axis, the vectors come out the same whichever of the two frames they are
+// expressed in.
+export const centrifugalAcceleration = (rate: number, position: Vec3): Vec3 => {
+  const omega = scale(ROOM_AXIS, rate);
+  return scale(cross(omega, cross(omega, position)), -1);
+};
+
+export const coriolisAcceleration = (rate: number, position: Vec3, velocity: Vec3): Vec3 => {
+  const omega = scale(ROOM_AXIS, rate);
+  return scale(cross(omega, sub(velocity, cross(omega, position))), -2);
+};
+
+// Rigid-body state relative to a base turned by `angle` and turning at `rate` about the room
+// axis, and back. The body-frame angular velocity loses or regains the base's own rotation.
+export const toBaseFrame = (state: RigidBodyState, angle: number, rate: number): RigidBodyState => ({
+  orientation: quatMultiply(quatConjugate(roomOrientation(angle)), state.orientation),
+  angularVelocity: sub(state.angularVelocity, quatRotateInverse(state.orientation, scale(ROOM_AXIS, rate))),
+});
+
+export const fromBaseFrame = (state: RigidBodyState, angle: number, rate: number): RigidBodyState => {
+  const orientation = quatMultiply(roomOrientation(angle), state.orientation);
+  return {
+    orientation,
+    angularVelocity: add(state.angularVelocity, quatRotateInverse(orientation, scale(ROOM_AXIS, rate))),
+  };
+};
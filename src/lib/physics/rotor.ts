@@ -0,0 +1,119 @@
+import { Mat3, mat3Diagonal } from './math';
+import { boxInertia, cylinderInertia, parallelAxisInertia } from './rigid-body';
+
+// Shape of the spinning body. The disk is the symmetric flywheel; the block and the T-handle
+// have three distinct principal moments. Every shape is centered on its center of mass with
+// its principal axes along the local axes, and the spin axle along local Y.
+//   disk:     cylinder of `radius` and `thickness`
+//   block:    2·radius (X) × thickness (Y) × radius (Z)
+//   t-handle: crossbar of length 2·radius along X on a stem of length radius along Y, both
+//             rods of diameter `thickness`
+export type RotorShape = 'disk' | 'block' | 't-handle';
+
+export const ROTOR_SHAPES: { shape: RotorShape; label: string }[] = [
+  { shape: 'disk', label: 'Disk' },
+  { shape: 'block', label: 'Block' },
+  { shape: 't-handle', label: 'T-Handle' },
+];
+
+// Physical properties of the spinning body shared by every mode (SI units)
+export interface RotorProperties {
+  shape: RotorShape;
+  mass: number;
+  radius: number;
+  thickness: number;
+}
+
+export const DEFAULT_ROTOR: RotorProperties = {
+  shape: 'disk',
+  mass: 2,
+  radius: 1,
+  thickness: 0.3,
+};
+
+// Thin torus used for the gimbal rings
+export interface RingProperties {
+  mass: number;
+  radius: number;
+  tube: number;
+}
+
+export interface GimbalRingMasses {
+  outer: number;
+  inner: number;
+}
+
+export const DEFAULT_RING_MASSES: GimbalRingMasses = {
+  outer: 0.6,
+  inner: 0.4,
+};
+
+const RING_TUBE = 0.08;
+// Clearance between the rotor rim and the inner ring, and between the two rings
+const RING_CLEARANCE = 0.5;
+
+// The T-handle's mass splits between its rods by length, which puts the crossbar at
+// radius/6 above the center of mass and the middle of the stem radius/3 below it
+export const tHandleLayout = (radius: number) => ({
+  crossbar: { length: 2 * radius, height: radius / 6, massFraction: 2 / 3 },
+  stem: { length: radius, height: -radius / 3, massFraction: 1 / 3 },
+});
+
+export const rotorVolume = ({ shape, radius, thickness }: Omit<RotorProperties, 'mass'>): number => {
+  switch (shape) {
+    case 'disk':
+      return Math.PI * radius * radius * thickness;
+    case 'block':
+      return 2 * radius * thickness * radius;
+    case 't-handle':
+      return Math.PI * (thickness / 2) ** 2 * 3 * radius;
+  }
+};
+
+export const rotorInertia = ({ shape, mass, radius, thickness }: RotorProperties): Mat3 => {
+  switch (shape) {
+    case 'disk':
+      return cylinderInertia(mass, radius, thickness);
+    case 'block':
+      return boxInertia(mass, [2 * radius, thickness, radius]);
+    case 't-handle': {
+      const { crossbar, stem } = tHandleLayout(radius);
+      const rod = thickness / 2;
+      const crossbarMass = mass * crossbar.massFraction;
+      const stemMass = mass * stem.massFraction;
+      // cylinderInertia lies along Y; the crossbar lies along X
+      const bar = cylinderInertia(crossbarMass, rod, crossbar.length);
+      const crossbarInertia = parallelAxisInertia(
+        mat3Diagonal([bar[4], bar[0], bar[8]]),
+        crossbarMass,
+        [0, crossbar.height, 0],
+      );
+      const stemInertia = parallelAxisInertia(cylinderInertia(stemMass, rod, stem.length), stemMass, [0, stem.height, 0]);
+      return crossbarInertia.map((value, i) => value + stemInertia[i]) as Mat3;
+    }
+  }
+};
+
+// The rings are sized around the rotor, so the model and the dynamics share one set of numbers
+export const gimbalRingsForRotor = (
+  rotor: RotorProperties,
+  masses: GimbalRingMasses,
+): { outer: RingProperties; inner: RingProperties } => {
+  const innerRadius = rotor.radius + RING_CLEARANCE;
+  return {
+    inner: { mass: masses.inner, radius: innerRadius, tube: RING_TUBE },
+    outer: { mass: masses.outer, radius: innerRadius + RING_CLEARANCE, tube: RING_TUBE },
+  };
+};
+
+// Principal moments of a ring: about its symmetry axis and about a diameter (kg·m²)
+export interface RingInertia {
+  symmetric: number;
+  diametral: number;
+}
+
+// Solid torus
+export const ringInertia = ({ mass, radius, tube }: RingProperties): RingInertia => ({
+  symmetric: mass * (radius * radius + 0.75 * tube * tube),
+  diametral: mass * (0.5 * radius * radius + 0.625 * tube * tube),
+});
@@ -0,0 +1,40 @@
+import { wrapAngle } from './math';
+
+// Servo: a PID controller steering a rotary joint to a target angle through a motor that can
+// only give so much torque
+
+export interface Servo {
+  // Angle the joint is steered to (rad)
+  target: number;
+  // Proportional (N·m/rad), integral (N·m/(rad·s)) and derivative (N·m·s/rad) gains
+  kp: number;
+  ki: number;
+  kd: number;
+  // Most torque the motor gives either way (N·m)
+  maxTorque: number;
+}
+
+export const DEFAULT_SERVO: Servo = {
+  target: 0,
+  kp: 20,
+  ki: 5,
+  kd: 8,
+  maxTorque: 20,
+};
+
+// Motor torque for a joint at `angle` turning at `rate`, and the integral of the angle error
+// after a step of `dt`. The error is taken the shorter way round. The derivative acts on the
+// joint rate rather than the error, so a new target does not kick the motor, and the integral
+// holds while the motor is saturated so it does not wind up.
+export const servoTorque = (
+  { target, kp, ki, kd, maxTorque }: Servo,
+  angle: number,
+  rate: number,
+  integral: number,
+  dt: number,
+): { torque: number; integral: number } => {
+  const error = wrapAngle(target - angle);
+  const demand = kp * error + ki * integral - kd * rate;
+  const torque = Math.max(-maxTorque, Math.min(maxTorque, demand));
+  return { torque, integral: torque === demand ? integral + error * dt : integral };
+};
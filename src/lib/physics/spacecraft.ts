@@ -0,0 +1,52 @@
+import { Vec3, add, cross, quatRotate, scale } from './math';
+import { RigidBody, RigidBodyState, angularMomentum, boxInertia, createRigidBody } from './rigid-body';
+import { stepRigidBody } from './integrators';
+
+// Spacecraft bus: a uniform box drifting in free space
+export const SPACECRAFT_BUS = {
+  mass: 100,
+  // Edge lengths along body X, Y and Z (m)
+  size: [1.6, 1.2, 1.6] as Vec3,
+};
+
+// Skew from the pyramid's axis (body +Y) of momentum devices mounted on the sides of a
+// pyramid, the angle that spreads their capacity evenly over all directions
+export const PYRAMID_SKEW = Math.acos(1 / Math.sqrt(3));
+
+// Outward axis of the pyramid side facing `side` (rad) about body +Y, from +X towards +Z
+export const pyramidAxis = (side: number): Vec3 => [
+  Math.sin(PYRAMID_SKEW) * Math.cos(side),
+  Math.cos(PYRAMID_SKEW),
+  Math.sin(PYRAMID_SKEW) * Math.sin(side),
+];
+
+export const createSpacecraftBody = (): RigidBody =>
+  createRigidBody(boxInertia(SPACECRAFT_BUS.mass, SPACECRAFT_BUS.size));
+
+// Angular momentum of the whole spacecraft (world frame): the bus's own plus `momentum`
+// (body frame), the momentum stored in the spinning wheels it carries. Nothing outside acts
+// on it, so this stays fixed however the wheels are turned.
+export const systemMomentum = (body: RigidBody, state: RigidBodyState, momentum: Vec3): Vec3 =>
+  add(angularMomentum(body, state), quatRotate(state.orientation, momentum));
+
+// One RK4 step of the bus while the wheels' momentum `momentum` (body frame) changes at
+// `momentumRate`. Whatever momentum the wheels take up the bus gives away: in the body
+// frame J ω̇ = −ḣ − ω × (J ω + h).
+export const stepSpacecraftBody = (
+  body: RigidBody,
+  state: RigidBodyState,
+  dt: number,
+  momentum: Vec3,
+  momentumRate: Vec3,
+): RigidBodyState =>
+  stepRigidBody(
+    body,
+    state,
+    dt,
+    (s) => {
+      // The gyroscopic term of the bus's own momentum is added by the integrator
+      const torque = scale(add(momentumRate, cross(s.angularVelocity, momentum)), -1);
+      return quatRotate(s.orientation, torque);
+    },
+    'rk4',
+  );
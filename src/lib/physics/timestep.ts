@@ -0,0 +1,5 @@
+// Physics runs at this rate on every machine, independent of the display refresh rate
+export const PHYSICS_TIMESTEP = 1 / 240;
+// Longest frame the simulation catches up on; after a stall (e.g. a background tab) the
+// remaining time is dropped instead of running hundreds of steps at once
+export const MAX_FRAME_TIME = 0.25;
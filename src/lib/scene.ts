@@ -0,0 +1,63 @@
+import { Vec3 } from './physics/math';
+import { GimbalJoints } from './physics/gimbal';
+import { DEFAULT_RING_MASSES, DEFAULT_ROTOR, GimbalRingMasses, RotorProperties } from './physics/rotor';
+import { DEFAULT_SERVO } from './physics/servo';
+
+// One gimbal-mounted gyroscope in the room, with everything the control panel sets for it
+export interface SceneGyroscope {
+  id: number;
+  color: string;
+  // Where the stand sits on the floor (y is ignored)
+  position: Vec3;
+  spinRate: number;
+  spinDirection: number;
+  spinAxis: Vec3;
+  joints: GimbalJoints;
+  lockDemo: boolean;
+  rotor: RotorProperties;
+  ringMasses: GimbalRingMasses;
+}
+
+// Outer ring colors, handed out in turn
+export const GYROSCOPE_COLORS = ['#CD7F32', '#3B82F6', '#10B981', '#EF4444', '#8B5CF6', '#F59E0B'];
+
+// Most gyroscopes the room holds at once
+export const MAX_GYROSCOPES = 16;
+
+// Farthest a stand may be placed from the middle of the room along X or Z (m)
+export const FLOOR_EXTENT = 7;
+
+// Spots new gyroscopes are placed at, in order, and how far a spot must be from the other
+// stands to count as free (m)
+const FLOOR_SPOTS: Vec3[] = [0, -6, 6].flatMap((z) => [0, 6, -6].map((x): Vec3 => [x, 0, z]));
+const SPOT_CLEARANCE = 5;
+
+export const createSceneGyroscope = (id: number, position: Vec3 = [0, 0, 0]): SceneGyroscope => ({
+  id,
+  color: GYROSCOPE_COLORS[(id - 1) % GYROSCOPE_COLORS.length],
+  position,
+  spinRate: 60,
+  spinDirection: 1,
+  spinAxis: [0, 1, 0],
+  joints: {
+    outer: { mode: 'free', rate: 0, servo: DEFAULT_SERVO },
+    inner: { mode: 'free', rate: 0, servo: DEFAULT_SERVO },
+  },
+  lockDemo: false,
+  rotor: DEFAULT_ROTOR,
+  ringMasses: DEFAULT_RING_MASSES,
+});
+
+// Copy of `template` on the first free floor spot (or the least crowded one), so a setting can
+// be varied against an otherwise identical one side by side. A full room is left as it is.
+export const addSceneGyroscope = (gyroscopes: SceneGyroscope[], template: SceneGyroscope): SceneGyroscope[] => {
+  if (gyroscopes.length >= MAX_GYROSCOPES) return gyroscopes;
+  const id = Math.max(0, ...gyroscopes.map((gyroscope) => gyroscope.id)) + 1;
+  const clearance = (spot: Vec3) =>
+    Math.min(...gyroscopes.map(({ position }) => Math.hypot(spot[0] - position[0], spot[2] - position[2])));
+  const position =
+    FLOOR_SPOTS.find((spot) => clearance(spot) >= SPOT_CLEARANCE) ??
+    FLOOR_SPOTS.reduce((best, spot) => (clearance(spot) > clearance(best) ? spot : best));
+  const { color } = createSceneGyroscope(id);
+  return [...gyroscopes, { ...template, id, color, position }];
+};
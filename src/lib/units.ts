@@ -0,0 +1,87 @@
+// Units quantities are shown and entered in. The physics works in SI throughout, with rates
+// in rad/s; values are only converted where the panel or the scene shows them.
+
+export type RateUnit = 'rpm' | 'rad/s' | 'deg/s' | 'hz';
+
+export type UnitSystem = 'si' | 'imperial';
+
+export interface Units {
+  // Unit of spin rates, angular velocities and frequencies
+  rate: RateUnit;
+  // System of every other dimensioned quantity
+  system: UnitSystem;
+}
+
+export const DEFAULT_UNITS: Units = { rate: 'rpm', system: 'si' };
+
+// The panel sets spin rates in RPM, whichever unit it shows them in
+export const fromRpm = (rpm: number) => (rpm * Math.PI) / 30;
+export const toRpm = (rate: number) => (rate * 30) / Math.PI;
+
+export const RATE_UNITS: { unit: RateUnit; label: string; perRadianPerSecond: number }[] = [
+  { unit: 'rpm', label: 'RPM', perRadianPerSecond: toRpm(1) },
+  { unit: 'rad/s', label: 'rad/s', perRadianPerSecond: 1 },
+  { unit: 'deg/s', label: '°/s', perRadianPerSecond: 180 / Math.PI },
+  { unit: 'hz', label: 'Hz', perRadianPerSecond: 1 / (2 * Math.PI) },
+];
+
+export const UNIT_SYSTEMS: { system: UnitSystem; label: string }[] = [
+  { system: 'si', label: 'SI' },
+  { system: 'imperial', label: 'Imperial' },
+];
+
+export type Quantity =
+  | 'length'
+  | 'smallLength'
+  | 'mass'
+  | 'density'
+  | 'force'
+  | 'speed'
+  | 'acceleration'
+  | 'torque'
+  | 'energy'
+  | 'momentum'
+  | 'inertia';
+
+// Exact definitions of the imperial units
+const FOOT = 0.3048;
+const POUND = 0.45359237;
+const POUND_FORCE = 4.4482216152605;
+
+// Symbol of each quantity in each system, and how many of that unit make one SI unit
+const QUANTITIES: Record<Quantity, Record<UnitSystem, { symbol: string; perSi: number }>> = {
+  length: { si: { symbol: 'm', perSi: 1 }, imperial: { symbol: 'ft', perSi: 1 / FOOT } },
+  // Rolling resistance and other lengths of a millimetre or so; a mil is a thousandth of an inch
+  smallLength: { si: { symbol: 'mm', perSi: 1000 }, imperial: { symbol: 'mil', perSi: 12000 / FOOT } },
+  mass: { si: { symbol: 'kg', perSi: 1 }, imperial: { symbol: 'lb', perSi: 1 / POUND } },
+  density: { si: { symbol: 'kg/m³', perSi: 1 }, imperial: { symbol: 'lb/ft³', perSi: FOOT ** 3 / POUND } },
+  force: { si: { symbol: 'N', perSi: 1 }, imperial: { symbol: 'lbf', perSi: 1 / POUND_FORCE } },
+  speed: { si: { symbol: 'm/s', perSi: 1 }, imperial: { symbol: 'ft/s', perSi: 1 / FOOT } },
+  // Force per unit mass, as the fictitious forces are drawn
+  acceleration: { si: { symbol: 'N/kg', perSi: 1 }, imperial: { symbol: 'ft/s²', perSi: 1 / FOOT } },
+  torque: { si: { symbol: 'N·m', perSi: 1 }, imperial: { symbol: 'lbf·ft', perSi: 1 / (POUND_FORCE * FOOT) } },
+  energy: { si: { symbol: 'J', perSi: 1 }, imperial: { symbol: 'ft·lbf', perSi: 1 / (POUND_FORCE * FOOT) } },
+  momentum: { si: { symbol: 'N·m·s', perSi: 1 }, imperial: { symbol: 'lbf·ft·s', perSi: 1 / (POUND_FORCE * FOOT) } },
+  inertia: { si: { symbol: 'kg·m²', perSi: 1 }, imperial: { symbol: 'lb·ft²', perSi: 1 / (POUND * FOOT ** 2) } },
+};
+
+export const unitSymbol = (units: Units, quantity: Quantity) => QUANTITIES[quantity][units.system].symbol;
+
+// SI value in the chosen system
+export const toDisplay = (units: Units, quantity: Quantity, value: number) =>
+  value * QUANTITIES[quantity][units.system].perSi;
+
+export const formatQuantity = (units: Units, quantity: Quantity, value: number, digits: number) =>
+  `${toDisplay(units, quantity, value).toFixed(digits)} ${unitSymbol(units, quantity)}`;
+
+const rateUnit = (units: Units) => RATE_UNITS.find(({ unit }) => unit === units.rate) ?? RATE_UNITS[0];
+
+export const rateSymbol = (units: Units) => rateUnit(units).label;
+
+// Rate (rad/s) in the chosen unit
+export const rateToDisplay = (units: Units, rate: number) => rate * rateUnit(units).perRadianPerSecond;
+
+// Rates span orders of magnitude between units (300 RPM is 5 Hz), so they keep three
+// significant figures rather than a fixed number of decimals
+export const formatRate = (units: Units, rate: number) =>
+  `${Number(rateToDisplay(units, rate).toPrecision(3))} ${rateSymbol(units)}`;
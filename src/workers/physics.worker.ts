@@ -0,0 +1,133 @@
+import { MAX_FRAME_TIME, PHYSICS_TIMESTEP } from '@/lib/physics/timestep';
+import {
+  PhysicsRequest,
+  PhysicsResponse,
+  SEQUENCE_BYTES,
+  SNAPSHOT_BUFFER_LENGTH,
+  SNAPSHOT_SIZE,
+  SimulationKind,
+  SimulationParams,
+  slotOffset,
+} from './protocol';
+import {
+  RoomSimulation,
+  WorkerSimulation,
+  createCmgSpacecraftSimulation,
+  createFloorTopSimulation,
+  createFreeBodySimulation,
+  createGimbalSimulation,
+  createGyrocompassSimulation,
+  createPivotedTopSimulation,
+  createReactionWheelSimulation,
+  createRoomSimulation,
+} from './simulations';
+
+// Physics worker: steps every hosted simulation with the fixed timestep, off the render
+// thread. Time is handed over by the render thread frame by frame, so the simulations keep
+// pace with the rest of the scene and stop with it when the tab is hidden.
+
+// The room's clock, while there is a room: gyroscopes added to a turning room start out
+// turned with it as far as it has got here, not as far as the render thread last saw
+let room: { slot: number; simulation: RoomSimulation } | null = null;
+
+const createSimulation = (request: Extract<PhysicsRequest, { type: 'add' }>) => {
+  switch (request.kind) {
+    case 'gimbal':
+      return createGimbalSimulation(request.params, room?.simulation.angle() ?? 0);
+    case 'floor-top':
+      return createFloorTopSimulation(request.params);
+    case 'pivoted-top':
+      return createPivotedTopSimulation(request.params);
+    case 'free-body':
+      return createFreeBodySimulation(request.params);
+    case 'gyrocompass':
+      return createGyrocompassSimulation(request.params);
+    case 'cmg-spacecraft':
+      return createCmgSpacecraftSimulation(request.params);
+    case 'reaction-wheels':
+      return createReactionWheelSimulation(request.params);
+    case 'room': {
+      const simulation = createRoomSimulation(request.params);
+      room = { slot: request.slot, simulation };
+      return simulation;
+    }
+  }
+};
+
+const simulations = new Map<number, WorkerSimulation<SimulationParams[SimulationKind]>>();
+const snapshots = new Float64Array(SNAPSHOT_BUFFER_LENGTH);
+let shared: { sequence: Int32Array; snapshots: Float64Array } | null = null;
+let accumulator = 0;
+// Time handed over while the worker was busy, stepped through in one go
+let pending = 0;
+let scheduled = false;
+
+const publish = () => {
+  snapshots[0] = accumulator / PHYSICS_TIMESTEP;
+  if (shared) {
+    Atomics.add(shared.sequence, 0, 1);
+    shared.snapshots.set(snapshots);
+    Atomics.add(shared.sequence, 0, 1);
+  } else {
+    const copy = snapshots.slice();
+    const response: PhysicsResponse = { type: 'snapshots', snapshots: copy };
+    self.postMessage(response, { transfer: [copy.buffer] });
+  }
+};
+
+const run = () => {
+  scheduled = false;
+  accumulator += Math.min(pending, MAX_FRAME_TIME);
+  pending = 0;
+  while (accumulator >= PHYSICS_TIMESTEP) {
+    simulations.forEach((simulation, slot) => {
+      const offset = slotOffset(slot);
+      snapshots.copyWithin(offset, offset + SNAPSHOT_SIZE, offset + 2 * SNAPSHOT_SIZE);
+      simulation.step(PHYSICS_TIMESTEP);
+      simulation.write(snapshots, offset + SNAPSHOT_SIZE);
+    });
+    accumulator -= PHYSICS_TIMESTEP;
+  }
+  publish();
+};
+
+self.addEventListener('message', (event: MessageEvent<PhysicsRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'share':
+      shared = {
+        sequence: new Int32Array(request.buffer, 0, 1),
+        snapshots: new Float64Array(request.buffer, SEQUENCE_BYTES, SNAPSHOT_BUFFER_LENGTH),
+      };
+      break;
+    case 'add': {
+      const simulation = createSimulation(request);
+      const offset = slotOffset(request.slot);
+      // Until the first step, the previous and latest snapshots are both the starting state
+      simulation.write(snapshots, offset);
+      simulation.write(snapshots, offset + SNAPSHOT_SIZE);
+      simulations.set(request.slot, simulation);
+      publish();
+      break;
+    }
+    case 'update':
+      simulations.get(request.slot)?.update(request.params);
+      break;
+    case 'remove': {
+      simulations.delete(request.slot);
+      if (room?.slot === request.slot) room = null;
+      const offset = slotOffset(request.slot);
+      snapshots.fill(0, offset, offset + 2 * SNAPSHOT_SIZE);
+      publish();
+      break;
+    }
+    case 'advance':
+      pending += request.elapsed;
+      // Frames that arrived while the worker was stepping are taken together
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(run, 0);
+      }
+      break;
+  }
+});
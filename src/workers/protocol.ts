@@ -0,0 +1,54 @@
+import { MAX_GYROSCOPES } from '@/lib/scene';
+import {
+  CmgSpacecraftSimulationParams,
+  FloorTopSimulationParams,
+  FreeBodySimulationParams,
+  GimbalSimulationParams,
+  GyrocompassSimulationParams,
+  PivotedTopSimulationParams,
+  ReactionWheelSimulationParams,
+  RoomSimulationParams,
+} from './simulations';
+
+// Messages between the render thread and the physics worker. The worker steps every
+// simulation it hosts and publishes their states as snapshots: flat arrays of numbers laid out
+// in one buffer, shared with the render thread where the page allows it and posted otherwise.
+
+export interface SimulationParams {
+  gimbal: GimbalSimulationParams;
+  'floor-top': FloorTopSimulationParams;
+  'pivoted-top': PivotedTopSimulationParams;
+  'free-body': FreeBodySimulationParams;
+  gyrocompass: GyrocompassSimulationParams;
+  'cmg-spacecraft': CmgSpacecraftSimulationParams;
+  'reaction-wheels': ReactionWheelSimulationParams;
+  room: RoomSimulationParams;
+}
+
+export type SimulationKind = keyof SimulationParams;
+
+export type PhysicsRequest =
+  // Publish into this buffer rather than posting snapshots
+  | { type: 'share'; buffer: SharedArrayBuffer }
+  | { [K in SimulationKind]: { type: 'add'; slot: number; kind: K; params: SimulationParams[K] } }[SimulationKind]
+  | { type: 'update'; slot: number; params: SimulationParams[SimulationKind] }
+  | { type: 'remove'; slot: number }
+  // Real time that has passed on the render thread (s)
+  | { type: 'advance'; elapsed: number };
+
+export type PhysicsResponse = { type: 'snapshots'; snapshots: Float64Array };
+
+// Most simulations the worker hosts at once, room for every gyroscope in the room and the
+// room's clock, and the numbers in each snapshot
+export const MAX_SIMULATIONS = MAX_GYROSCOPES + 1;
+export const SNAPSHOT_SIZE = 24;
+
+// The buffer starts with the fraction of a step the worker's clock is ahead of the latest
+// states, then each slot holds the snapshot after the previous step followed by the one
+// after the latest step. A shared buffer is preceded by a sequence number, odd while the
+// worker is writing.
+export const SNAPSHOT_HEADER = 1;
+export const SNAPSHOT_BUFFER_LENGTH = SNAPSHOT_HEADER + 2 * MAX_SIMULATIONS * SNAPSHOT_SIZE;
+export const SEQUENCE_BYTES = 8;
+
+export const slotOffset = (slot: number) => SNAPSHOT_HEADER + 2 * slot * SNAPSHOT_SIZE;
@@ -0,0 +1,636 @@
+import { Vec3 } from '@/lib/physics/math';
+import { RigidBodyState, createRigidBody } from '@/lib/physics/rigid-body';
+import { IntegratorId } from '@/lib/physics/integrators';
+import { Drift, EnergyMomentum } from '@/lib/physics/diagnostics';
+import { GimbalAngles, GimbalJoints, GimbalReaction } from '@/lib/physics/gimbal';
+import {
+  createGimbalMount,
+  createGimbalMountState,
+  gimbalMountEnergyMomentum,
+  stepGimbalMount,
+} from '@/lib/physics/gimbal-mount';
+import {
+  FloorTopPreset,
+  FloorTopRelease,
+  FloorTopStance,
+  createFloorTop,
+  createFloorTopState,
+  floorTopTilt,
+  stepFloorTop,
+} from '@/lib/physics/floor-top';
+import {
+  EMPTY_PRECESSION_WINDOW,
+  PivotedTopRun,
+  createPivotedTop,
+  createPivotedTopState,
+  measuredPrecession,
+  stepPivotedTop,
+} from '@/lib/physics/pivoted-top';
+import { FreeBodyRun, createFreeBodyState, stepFreeBody } from '@/lib/physics/free-body';
+import { GyrocompassParams, createGyrocompassState, isCircling, stepGyrocompass } from '@/lib/physics/gyrocompass';
+import { MAX_CMGS, createCmgArray, createCmgSpacecraftState, stepCmgSpacecraft } from '@/lib/physics/cmg';
+import {
+  ReactionWheelParams,
+  WHEEL_COLORS,
+  createReactionWheelState,
+  stepReactionWheels,
+} from '@/lib/physics/reaction-wheels';
+import { createSpacecraftBody } from '@/lib/physics/spacecraft';
+import { GimbalRingMasses, RotorProperties, rotorInertia } from '@/lib/physics/rotor';
+
+// Simulations the physics worker hosts. Each keeps its own state, picks up new settings from
+// the render thread and writes its state out as a snapshot, which the render thread reads
+// back with the matching decoder. The first number of a snapshot is 1, marking a live slot.
+
+export interface WorkerSimulation<Params> {
+  update: (params: Params) => void;
+  step: (dt: number) => void;
+  write: (target: Float64Array, offset: number) => void;
+}
+
+// Settings arrive as fresh copies with every message, so they are compared by value
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const readVec3 = (values: Float64Array, offset: number): Vec3 => [
+  values[offset],
+  values[offset + 1],
+  values[offset + 2],
+];
+
+const readBody = (values: Float64Array, offset: number): RigidBodyState => ({
+  orientation: [values[offset], values[offset + 1], values[offset + 2], values[offset + 3]],
+  angularVelocity: readVec3(values, offset + 4),
+});
+
+// Lists of up to `capacity` numbers, e.g. one per wheel, take a fixed room in the snapshot:
+// their length, then the values padded out with zeros
+const listValues = (list: number[], capacity: number): number[] => [
+  list.length,
+  ...Array.from({ length: capacity }, (_, i) => list[i] ?? 0),
+];
+
+const readList = (values: Float64Array, offset: number): number[] =>
+  Array.from(values.subarray(offset + 1, offset + 1 + values[offset]));
+
+export interface GimbalSimulationParams {
+  // Spin about the axle (rad/s)
+  spin: number;
+  spinAxis: Vec3;
+  joints: GimbalJoints;
+  lockDemo: boolean;
+  integrator: IntegratorId;
+  rotor: RotorProperties;
+  ringMasses: GimbalRingMasses;
+  // Rate the stand turns at with the room (rad/s)
+  baseRate: number;
+  // Torque from dragging the mount with the pointer (inertial frame)
+  push: Vec3;
+}
+
+export interface GimbalSnapshot {
+  body: RigidBodyState;
+  baseAngle: number;
+  angles: GimbalAngles;
+  reaction: GimbalReaction;
+  drift: Drift | null;
+  coupling: Drift | null;
+  energyMomentum: EnergyMomentum;
+}
+
+// The stand starts out turned through `baseAngle` with the room
+export const createGimbalSimulation = (
+  initial: GimbalSimulationParams,
+  baseAngle: number,
+): WorkerSimulation<GimbalSimulationParams> => {
+  let params = initial;
+  let mount = createGimbalMount(params.rotor, params.ringMasses);
+  let state = createGimbalMountState(params.spinAxis, params.spin, baseAngle);
+
+  return {
+    update: (next) => {
+      const previous = params;
+      params = next;
+
+      // Choosing a spin axis swings the rings so the axle points along it
+      if (!sameValue(next.spinAxis, previous.spinAxis)) {
+        state = createGimbalMountState(next.spinAxis, next.spin, state.baseAngle);
+      }
+
+      // Spinning the rotor up only changes the spin about its own axle
+      if (next.spin !== previous.spin) {
+        const [wx, , wz] = state.body.angularVelocity;
+        state = { ...state, body: { ...state.body, angularVelocity: [wx, next.spin, wz] }, reference: null };
+      }
+
+      // Drift is measured from the moment the integrator or the mass distribution was picked
+      const massChanged = !sameValue(next.rotor, previous.rotor) || !sameValue(next.ringMasses, previous.ringMasses);
+      if (massChanged) {
+        mount = createGimbalMount(next.rotor, next.ringMasses);
+      }
+      if (massChanged || next.integrator !== previous.integrator) {
+        state = { ...state, reference: null };
+      }
+
+      // The demo holds the outer ring where it is; leaving it stops the inner ring where it is
+      if (next.lockDemo !== previous.lockDemo) {
+        state = next.lockDemo
+          ? { ...state, held: { ...state.held, outer: state.angles.outer } }
+          : {
+              ...state,
+              body: { ...state.body, angularVelocity: [0, next.spin, 0] },
+              rates: { outer: 0, inner: 0, spin: next.spin },
+            };
+      }
+
+      // A ring that becomes locked is held at the angle it had at that moment
+      if (next.joints.outer.mode !== previous.joints.outer.mode) {
+        state = { ...state, held: { ...state.held, outer: state.angles.outer } };
+      }
+      if (next.joints.inner.mode !== previous.joints.inner.mode) {
+        state = { ...state, held: { ...state.held, inner: state.angles.inner } };
+      }
+    },
+    step: (dt) => {
+      state = stepGimbalMount(mount, state, params, dt, params.push);
+    },
+    write: (target, offset) => {
+      const { body, baseAngle, angles, reaction, drift, coupling } = state;
+      const { kinetic, potential, angularMomentum } = gimbalMountEnergyMomentum(mount, state);
+      target.set(
+        [
+          1,
+          ...body.orientation,
+          ...body.angularVelocity,
+          baseAngle,
+          angles.outer,
+          angles.inner,
+          angles.spin,
+          reaction.outer,
+          reaction.inner,
+          drift?.energy ?? NaN,
+          drift?.angularMomentum ?? NaN,
+          kinetic,
+          potential,
+          ...angularMomentum,
+          coupling?.energy ?? NaN,
+          coupling?.angularMomentum ?? NaN,
+        ],
+        offset,
+      );
+    },
+  };
+};
+
+export const decodeGimbalSnapshot = (values: Float64Array, offset: number): GimbalSnapshot => ({
+  body: readBody(values, offset + 1),
+  baseAngle: values[offset + 8],
+  angles: { outer: values[offset + 9], inner: values[offset + 10], spin: values[offset + 11] },
+  reaction: { outer: values[offset + 12], inner: values[offset + 13] },
+  drift: Number.isNaN(values[offset + 14])
+    ? null
+    : { energy: values[offset + 14], angularMomentum: values[offset + 15] },
+  energyMomentum: {
+    kinetic: values[offset + 16],
+    potential: values[offset + 17],
+    angularMomentum: readVec3(values, offset + 18),
+  },
+  coupling: Number.isNaN(values[offset + 21])
+    ? null
+    : { energy: values[offset + 21], angularMomentum: values[offset + 22] },
+});
+
+export interface FloorTopSimulationParams {
+  preset: FloorTopPreset;
+  rotor: RotorProperties;
+  tipLength: number;
+  release: FloorTopRelease;
+  friction: number;
+  rollingFriction: number;
+  floorRate: number;
+  // Bumped to spin the top again with the same settings
+  launch: number;
+}
+
+export interface FloorTopSnapshot {
+  position: Vec3;
+  velocity: Vec3;
+  body: RigidBodyState;
+  // Deepest point touching the floor, if any
+  contact: Vec3 | null;
+  normalForce: number;
+  slip: number;
+  tilt: number;
+  stance: FloorTopStance;
+}
+
+const FLOOR_TOP_STANCES: FloorTopStance[] = ['spinning', 'fallen', 'inverted'];
+
+export const createFloorTopSimulation = (
+  initial: FloorTopSimulationParams,
+): WorkerSimulation<FloorTopSimulationParams> => {
+  let params = initial;
+  let top = createFloorTop(params.preset, params.rotor, params.tipLength);
+  let state = createFloorTopState(top, params.release);
+
+  return {
+    update: (next) => {
+      const previous = params;
+      params = next;
+      const shapeChanged =
+        next.preset !== previous.preset ||
+        next.tipLength !== previous.tipLength ||
+        !sameValue(next.rotor, previous.rotor);
+      if (shapeChanged) {
+        top = createFloorTop(next.preset, next.rotor, next.tipLength);
+      }
+      // Nothing keeps a top on the floor spinning, so any change of the release conditions
+      // spins it up again from the middle of the floor
+      if (shapeChanged || !sameValue(next.release, previous.release) || next.launch !== previous.launch) {
+        state = createFloorTopState(top, next.release);
+      }
+    },
+    step: (dt) => {
+      state = stepFloorTop(top, state, params, params.release, dt);
+    },
+    write: (target, offset) => {
+      const { position, velocity, body, contacts } = state;
+      const [contact] = contacts;
+      target.set(
+        [
+          1,
+          ...position,
+          ...velocity,
+          ...body.orientation,
+          ...body.angularVelocity,
+          contact ? 1 : 0,
+          contact?.point[0] ?? 0,
+          contact?.point[2] ?? 0,
+          contacts.reduce((sum, { normalForce }) => sum + normalForce, 0),
+          Math.max(0, ...contacts.map(({ slip }) => slip)),
+          floorTopTilt(state),
+          FLOOR_TOP_STANCES.indexOf(state.stance),
+        ],
+        offset,
+      );
+    },
+  };
+};
+
+export const decodeFloorTopSnapshot = (values: Float64Array, offset: number): FloorTopSnapshot => ({
+  position: readVec3(values, offset + 1),
+  velocity: readVec3(values, offset + 4),
+  body: readBody(values, offset + 7),
+  contact: values[offset + 14] ? [values[offset + 15], 0, values[offset + 16]] : null,
+  normalForce: values[offset + 17],
+  slip: values[offset + 18],
+  tilt: values[offset + 19],
+  stance: FLOOR_TOP_STANCES[values[offset + 20]],
+});
+
+export interface RoomSimulationParams {
+  // Rate the room turns at about the vertical axis (rad/s)
+  rate: number;
+}
+
+export interface RoomSnapshot {
+  angle: number;
+}
+
+export interface RoomSimulation extends WorkerSimulation<RoomSimulationParams> {
+  // Angle the room has turned through (rad)
+  angle: () => number;
+}
+
+// The room's clock: how far it has turned, stepped with everything else so the scenes in it
+// keep in step with it
+export const createRoomSimulation = (initial: RoomSimulationParams): RoomSimulation => {
+  let params = initial;
+  let angle = 0;
+
+  return {
+    angle: () => angle,
+    update: (next) => {
+      params = next;
+    },
+    step: (dt) => {
+      angle += params.rate * dt;
+    },
+    write: (target, offset) => {
+      target.set([1, angle], offset);
+    },
+  };
+};
+
+export const decodeRoomSnapshot = (values: Float64Array, offset: number): RoomSnapshot => ({
+  angle: values[offset + 1],
+});
+
+export interface PivotedTopSimulationParams extends PivotedTopRun {
+  rotor: RotorProperties;
+  pivotOffset: number;
+  // Torque from dragging the top with the pointer (world frame)
+  push: Vec3;
+}
+
+export interface PivotedTopSnapshot {
+  body: RigidBodyState;
+  drift: Drift | null;
+  // Mean precession rate and tilt since the motion last changed, once long enough to read
+  precession: { rate: number; tilt: number } | null;
+}
+
+export const createPivotedTopSimulation = (
+  initial: PivotedTopSimulationParams,
+): WorkerSimulation<PivotedTopSimulationParams> => {
+  let params = initial;
+  let top = createPivotedTop({ ...params.rotor, pivotOffset: params.pivotOffset });
+  let state = createPivotedTopState(params);
+
+  return {
+    update: (next) => {
+      const previous = params;
+      params = next;
+      const supportChanged = next.pivotOffset !== previous.pivotOffset || !sameValue(next.rotor, previous.rotor);
+      if (supportChanged) {
+        top = createPivotedTop({ ...next.rotor, pivotOffset: next.pivotOffset });
+      }
+
+      // Changing the support or the release angle releases the top again from rest
+      if (supportChanged || next.initialTilt !== previous.initialTilt) {
+        state = createPivotedTopState(next);
+      } else if (next.spin !== previous.spin) {
+        // Changing the spin rate acts like a motor on the axle: only the spin component is reset
+        const [wx, , wz] = state.body.angularVelocity;
+        state = {
+          ...state,
+          body: { ...state.body, angularVelocity: [wx, next.spin, wz] },
+          reference: null,
+          precession: EMPTY_PRECESSION_WINDOW,
+        };
+      } else if (next.integrator !== previous.integrator) {
+        // Drift is measured from the moment the integrator was picked
+        state = { ...state, reference: null };
+      }
+    },
+    step: (dt) => {
+      state = stepPivotedTop(top, state, params, dt, params.push);
+    },
+    write: (target, offset) => {
+      const { body, drift } = state;
+      const precession = measuredPrecession(state.precession);
+      target.set(
+        [
+          1,
+          ...body.orientation,
+          ...body.angularVelocity,
+          drift?.energy ?? NaN,
+          drift?.angularMomentum ?? NaN,
+          precession?.rate ?? NaN,
+          precession?.tilt ?? NaN,
+        ],
+        offset,
+      );
+    },
+  };
+};
+
+export const decodePivotedTopSnapshot = (values: Float64Array, offset: number): PivotedTopSnapshot => ({
+  body: readBody(values, offset + 1),
+  drift: Number.isNaN(values[offset + 8]) ? null : { energy: values[offset + 8], angularMomentum: values[offset + 9] },
+  precession: Number.isNaN(values[offset + 10]) ? null : { rate: values[offset + 10], tilt: values[offset + 11] },
+});
+
+export interface FreeBodySimulationParams extends FreeBodyRun {
+  rotor: RotorProperties;
+  // Torque from dragging the body with the pointer (world frame)
+  push: Vec3;
+}
+
+export interface FreeBodySnapshot {
+  body: RigidBodyState;
+  flips: number;
+  drift: Drift | null;
+}
+
+export const createFreeBodySimulation = (
+  initial: FreeBodySimulationParams,
+): WorkerSimulation<FreeBodySimulationParams> => {
+  let params = initial;
+  let rigidBody = createRigidBody(rotorInertia(params.rotor));
+  let state = createFreeBodyState(rigidBody, params);
+
+  return {
+    update: (next) => {
+      const previous = params;
+      params = next;
+      const shapeChanged = !sameValue(next.rotor, previous.rotor);
+      if (shapeChanged) {
+        rigidBody = createRigidBody(rotorInertia(next.rotor));
+      }
+
+      // Nothing drives a free body, so any change of the release conditions throws it again
+      if (
+        shapeChanged ||
+        next.axis !== previous.axis ||
+        next.spin !== previous.spin ||
+        next.perturbation !== previous.perturbation
+      ) {
+        state = createFreeBodyState(rigidBody, next);
+      } else if (next.integrator !== previous.integrator) {
+        // Drift is measured from the moment the integrator was picked
+        state = { ...state, reference: null };
+      }
+    },
+    step: (dt) => {
+      state = stepFreeBody(rigidBody, state, params, dt, params.push);
+    },
+    write: (target, offset) => {
+      const { body, flips, drift } = state;
+      target.set(
+        [1, ...body.orientation, ...body.angularVelocity, flips, drift?.energy ?? NaN, drift?.angularMomentum ?? NaN],
+        offset,
+      );
+    },
+  };
+};
+
+export const decodeFreeBodySnapshot = (values: Float64Array, offset: number): FreeBodySnapshot => ({
+  body: readBody(values, offset + 1),
+  flips: values[offset + 8],
+  drift: Number.isNaN(values[offset + 9]) ? null : { energy: values[offset + 9], angularMomentum: values[offset + 10] },
+});
+
+export interface GyrocompassSimulationParams extends GyrocompassParams {
+  // Heading the axle is released level at (rad clockwise from north)
+  initialHeading: number;
+  // Spin of the rotor (rad/s), to turn it by
+  spin: number;
+}
+
+export interface GyrocompassSnapshot {
+  // Direction the angular momentum points along (local frame)
+  axis: Vec3;
+  // Time since release, and when the heading settled (s)
+  time: number;
+  settledAt: number | null;
+  circling: boolean;
+  // Angle the rotor has turned through (rad)
+  spinAngle: number;
+}
+
+export const createGyrocompassSimulation = (
+  initial: GyrocompassSimulationParams,
+): WorkerSimulation<GyrocompassSimulationParams> => {
+  let params = initial;
+  let state = createGyrocompassState(params.initialHeading);
+  let spinAngle = 0;
+
+  return {
+    // The settling time is measured from release, so any change releases the axle again
+    update: (next) => {
+      params = next;
+      state = createGyrocompassState(next.initialHeading);
+    },
+    step: (dt) => {
+      state = stepGyrocompass(params, state, dt);
+      spinAngle += params.spin * dt;
+    },
+    write: (target, offset) => {
+      target.set([1, ...state.axis, state.time, state.settledAt ?? NaN, isCircling(state) ? 1 : 0, spinAngle], offset);
+    },
+  };
+};
+
+export const decodeGyrocompassSnapshot = (values: Float64Array, offset: number): GyrocompassSnapshot => ({
+  axis: readVec3(values, offset + 1),
+  time: values[offset + 4],
+  settledAt: Number.isNaN(values[offset + 5]) ? null : values[offset + 5],
+  circling: values[offset + 6] === 1,
+  spinAngle: values[offset + 7],
+});
+
+export interface CmgSpacecraftSimulationParams {
+  count: number;
+  // Spin angular momentum of each CMG's wheel (N·m·s), and its spin (rad/s)
+  wheelMomentum: number;
+  spin: number;
+  // Commanded gimbal rate of each CMG (rad/s)
+  gimbalRates: number[];
+  // Bumped to put the spacecraft back at rest with the gimbals at zero
+  launch: number;
+}
+
+export interface CmgSpacecraftSnapshot {
+  body: RigidBodyState;
+  // Gimbal angles (rad)
+  angles: number[];
+  // Angle the wheels have turned through (rad)
+  spinAngle: number;
+}
+
+export const createCmgSpacecraftSimulation = (
+  initial: CmgSpacecraftSimulationParams,
+): WorkerSimulation<CmgSpacecraftSimulationParams> => {
+  const bus = createSpacecraftBody();
+  let params = initial;
+  let array = createCmgArray(params.count, params.wheelMomentum);
+  let state = createCmgSpacecraftState(params.count);
+  let spinAngle = 0;
+
+  return {
+    update: (next) => {
+      const previous = params;
+      params = next;
+      if (
+        next.count !== previous.count ||
+        next.wheelMomentum !== previous.wheelMomentum ||
+        next.launch !== previous.launch
+      ) {
+        array = createCmgArray(next.count, next.wheelMomentum);
+        state = createCmgSpacecraftState(next.count);
+      }
+    },
+    step: (dt) => {
+      const rates = state.angles.map((_, i) => params.gimbalRates[i] ?? 0);
+      state = stepCmgSpacecraft(bus, array, state, rates, dt);
+      spinAngle += params.spin * dt;
+    },
+    write: (target, offset) => {
+      const { body, angles } = state;
+      target.set([1, ...body.orientation, ...body.angularVelocity, ...listValues(angles, MAX_CMGS), spinAngle], offset);
+    },
+  };
+};
+
+export const decodeCmgSpacecraftSnapshot = (values: Float64Array, offset: number): CmgSpacecraftSnapshot => ({
+  body: readBody(values, offset + 1),
+  angles: readList(values, offset + 8),
+  spinAngle: values[offset + 9 + MAX_CMGS],
+});
+
+export interface ReactionWheelSimulationParams extends ReactionWheelParams {
+  // Bumped to put the spacecraft back at rest with the wheels stopped
+  launch: number;
+}
+
+export interface ReactionWheelSnapshot {
+  body: RigidBodyState;
+  // Speed of each wheel relative to the bus (rad/s), and the angle it is drawn at (rad)
+  wheelSpeeds: number[];
+  wheelAngles: number[];
+  // Time since the spacecraft was put back at rest (s)
+  time: number;
+}
+
+// One wheel per trace color
+const MAX_WHEELS = WHEEL_COLORS.length;
+// Wheels are drawn turning at this fraction of their speed, slow enough to follow by eye
+const WHEEL_DISPLAY_RATE = 0.05;
+
+export const createReactionWheelSimulation = (
+  initial: ReactionWheelSimulationParams,
+): WorkerSimulation<ReactionWheelSimulationParams> => {
+  const bus = createSpacecraftBody();
+  let params = initial;
+  let state = createReactionWheelState(params.axes.length);
+  let wheelAngles = new Array<number>(params.axes.length).fill(0);
+  let time = 0;
+
+  return {
+    update: (next) => {
+      const previous = params;
+      params = next;
+      if (!sameValue(next.axes, previous.axes) || next.launch !== previous.launch) {
+        state = createReactionWheelState(next.axes.length);
+        wheelAngles = new Array<number>(next.axes.length).fill(0);
+        time = 0;
+      }
+    },
+    step: (dt) => {
+      state = stepReactionWheels(bus, state, params, dt);
+      wheelAngles = wheelAngles.map((angle, i) => angle + state.wheelSpeeds[i] * WHEEL_DISPLAY_RATE * dt);
+      time += dt;
+    },
+    write: (target, offset) => {
+      const { body, wheelSpeeds } = state;
+      target.set(
+        [
+          1,
+          ...body.orientation,
+          ...body.angularVelocity,
+          ...listValues(wheelSpeeds, MAX_WHEELS),
+          ...listValues(wheelAngles, MAX_WHEELS),
+          time,
+        ],
+        offset,
+      );
+    },
+  };
+};
+
+export const decodeReactionWheelSnapshot = (values: Float64Array, offset: number): ReactionWheelSnapshot => ({
+  body: readBody(values, offset + 1),
+  wheelSpeeds: readList(values, offset + 8),
+  wheelAngles: readList(values, offset + 9 + MAX_WHEELS),
+  time: values[offset + 10 + 2 * MAX_WHEELS],
+});